@@ -9,11 +9,23 @@ import { TranslatorPage } from './components/Translator';
 import { IntelligenceHubPage } from './components/IntelligenceHub';
 import { AdminPanelPage } from './components/Admin';
 import { StoryReaderPage } from './components/StoryReader';
-import { CURRENT_USER_EMAIL_KEY, SIKE_USERS_KEY, GLOBAL_NOTES_KEY, validateSubscriptionCode } from './utils/appUtils';
+import { ModelSettingsPage } from './components/ModelSettings';
+import { ExamPage } from './components/Exam';
+import { DashboardPage } from './components/Dashboard';
+import { SearchPage } from './components/Search';
+import { UserManagementPage } from './components/UserManagement';
+import { SIKE_USERS_KEY, GLOBAL_NOTES_KEY } from './utils/appUtils';
+import { AuthSession, getSession, refreshSession, signOut } from './services/authService';
+import { can, canOpenPage } from './services/permissions';
+import { isSyncEnabled, syncNow, SYNC_INTERVAL_MS } from './services/syncService';
+import { checkFeatureAccess, onUpgradeRequest, pageUpgradeMessage, requestUpgrade, setEntitlementContext } from './services/entitlements';
+import { redeemCode } from './services/subscriptionCodes';
+import { navigate, Route, RouteParams, useRoute } from './services/router';
 
 export const App: React.FC = () => {
   const [isInitializing, setIsInitializing] = useState(true);
-  const [page, setPage] = useState('mainMenu');
+  const route = useRoute();
+  const { page } = route;
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [currentUserEmail, setCurrentUserEmail] = useState<string | null>(null);
@@ -22,50 +34,124 @@ export const App: React.FC = () => {
   const [selectionPopover, setSelectionPopover] = useState({ visible: false, top: 0, left: 0, text: '' });
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [isSubscriptionModalOpen, setIsSubscriptionModalOpen] = useState(false);
+  const [upgradeReason, setUpgradeReason] = useState('');
+  /** Where a guest was headed when a protected link sent them to sign in. */
+  const [pendingRoute, setPendingRoute] = useState<Route | null>(null);
   
-  const isCommander = useMemo(() => currentUserEmail === 'sikandarmalik415@gmail.com', [currentUserEmail]);
+  const role = userProfile?.role || null;
+  const isCommander = useMemo(() => can(role, 'admin.panel'), [role]);
+  const currentTier = userProfile?.subscription?.expiry && userProfile.subscription.expiry > Date.now() ? userProfile.subscription.tier : 'free';
+
+  const setPage = (nextPage: string, params?: RouteParams) => navigate(nextPage, params);
+  /** In-page state (open conversation, report, view) replaces the history entry instead of adding one. */
+  const replaceParams = (params: RouteParams) => navigate(page, params, { replace: true });
 
   useEffect(() => {
     const timer = setTimeout(() => { setIsInitializing(false); }, 2500);
     return () => clearTimeout(timer);
   }, []);
 
-    const handleLocalLogin = (name: string, email: string) => {
+    /** Local profile (notes) for a server-verified session; name, role and subscription come from the server. */
+    const applySession = (session: AuthSession): UserProfile | null => {
         try {
             const users: UserProfile[] = JSON.parse(localStorage.getItem(SIKE_USERS_KEY) || '[]');
-            const normalizedEmail = email.toLowerCase().trim();
-            const userIndex = users.findIndex(u => u.email.toLowerCase() === normalizedEmail);
+            const { name, email, role, subscription: granted } = session.user;
+            const userIndex = users.findIndex(u => u.email.toLowerCase() === email);
 
             let user: UserProfile;
             if (userIndex !== -1) {
-                users[userIndex] = { ...users[userIndex], name, lastActive: Date.now() };
+                users[userIndex] = { ...users[userIndex], name, role, lastActive: Date.now() };
                 user = users[userIndex];
             } else {
-                user = { name, email: normalizedEmail, picture: '', notes: '', lastActive: Date.now() };
+                user = { name, email, role, picture: '', notes: '', lastActive: Date.now() };
                 users.push(user);
             }
+            // The server's grant is the only source of the tier, so downgrades apply and local edits do not count
+            if (granted) user.subscription = granted; else delete user.subscription;
 
             localStorage.setItem(SIKE_USERS_KEY, JSON.stringify(users));
-            localStorage.setItem(CURRENT_USER_EMAIL_KEY, user.email);
             setCurrentUserEmail(user.email);
             setUserProfile(user);
-            setIsLoginModalOpen(false);
+            return user;
+        } catch (err) {
+            console.error("Error handling user data:", err);
+            return null;
+        }
+    };
+
+    const handleLogin = (session: AuthSession) => {
+        if (!applySession(session)) return;
+        setIsLoginModalOpen(false);
+        if (pendingRoute) {
+            navigate(pendingRoute.page, pendingRoute.params);
+            setPendingRoute(null);
+        } else {
             setPage('mainMenu');
-        } catch (err) { console.error("Error handling user data:", err); }
+        }
+    };
+
+    const closeLoginModal = () => {
+        setIsLoginModalOpen(false);
+        setPendingRoute(null);
     };
 
   useEffect(() => {
-    const savedEmail = localStorage.getItem(CURRENT_USER_EMAIL_KEY);
-    if (savedEmail) {
-      const users: UserProfile[] = JSON.parse(localStorage.getItem(SIKE_USERS_KEY) || '[]');
-      const currentUser = users.find(u => u.email === savedEmail);
-      if (currentUser) {
-        setCurrentUserEmail(savedEmail);
-        setUserProfile(currentUser);
+    const session = getSession();
+    if (!session) return;
+    applySession(session);
+    // Re-validate with the server so revoked accounts and role changes take effect
+    refreshSession().then(fresh => {
+      if (fresh) {
+        applySession(fresh);
+      } else {
+        setCurrentUserEmail(null);
+        setUserProfile(null);
       }
-    }
+    });
   }, []);
   
+    useEffect(() => {
+        const tier = userProfile?.subscription?.expiry && userProfile.subscription.expiry > Date.now() ? userProfile.subscription.tier : 'free';
+        setEntitlementContext(currentUserEmail, tier, can(userProfile?.role, 'features.unlimited'));
+    }, [userProfile, currentUserEmail]);
+
+    // Links to pages the caller may not open fall back to the main menu. Guests are asked to
+    // sign in and sent on afterwards; waits for the splash so a stored session is applied first.
+    useEffect(() => {
+        if (isInitializing) return;
+        if (!canOpenPage(role, page)) {
+            if (!role) {
+                setPendingRoute(route);
+                setIsLoginModalOpen(true);
+            }
+            navigate('mainMenu', {}, { replace: true });
+        } else if (!checkFeatureAccess(page, currentTier) && !can(role, 'features.unlimited')) {
+            navigate('mainMenu', {}, { replace: true });
+            requestUpgrade(pageUpgradeMessage(page));
+        }
+    }, [isInitializing, page, role, currentTier]);
+
+    // Services hitting a plan limit ask for the upgrade prompt from anywhere in the tree
+    useEffect(() => onUpgradeRequest(reason => {
+        setUpgradeReason(reason);
+        setIsSubscriptionModalOpen(true);
+    }), []);
+
+    const openSubscription = () => {
+        setUpgradeReason('');
+        setIsSubscriptionModalOpen(true);
+    };
+
+    useEffect(() => {
+        if (!currentUserEmail || !isSyncEnabled()) return;
+        const runSync = () => {
+            if (navigator.onLine) syncNow(currentUserEmail).catch(e => console.error("Background sync failed:", e));
+        };
+        runSync();
+        const interval = setInterval(runSync, SYNC_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [currentUserEmail]);
+
     useEffect(() => {
         if (userProfile) {
             setActiveProfileNotes(userProfile.notes || '');
@@ -95,7 +181,7 @@ export const App: React.FC = () => {
 
   const handleLogout = () => {
     if (window.confirm("Are you sure you want to log out?")) {
-      localStorage.removeItem(CURRENT_USER_EMAIL_KEY);
+      signOut();
       setCurrentUserEmail(null);
       setUserProfile(null);
       setPage('mainMenu');
@@ -121,51 +207,54 @@ export const App: React.FC = () => {
       }
   };
 
-  const handleRedeemCode = (code: string) => {
+  const handleRedeemCode = async (code: string) => {
       if (!userProfile) { alert("Please sign in first."); return; }
-      const tier = validateSubscriptionCode(code);
-      if (!tier) { alert("Invalid code."); return; }
-      const users: UserProfile[] = JSON.parse(localStorage.getItem(SIKE_USERS_KEY) || '[]');
-      const userIndex = users.findIndex(u => u.email === userProfile.email);
-      if (userIndex !== -1) {
-          const currentExpiry = users[userIndex].subscription?.expiry || Date.now();
-          const newExpiry = (currentExpiry > Date.now() ? currentExpiry : Date.now()) + (30 * 24 * 60 * 60 * 1000);
-          const updatedUser = { ...users[userIndex], subscription: { tier, expiry: newExpiry } };
-          users[userIndex] = updatedUser;
-          localStorage.setItem(SIKE_USERS_KEY, JSON.stringify(users));
-          setUserProfile(updatedUser);
-          alert(`Code Redeemed! Plan: ${tier.toUpperCase()}`);
+      try {
+          const updated = applySession(await redeemCode(code));
+          const subscription = updated?.subscription;
+          if (subscription) alert(`Code Redeemed! Plan: ${subscription.tier.toUpperCase()} until ${new Date(subscription.expiry).toLocaleDateString()}`);
+      } catch (err) {
+          alert((err as Error).message);
       }
   };
   
   if (isInitializing) return <SplashScreen />;
 
   const renderPage = () => {
+    const mainMenu = <MainMenuPage setPage={setPage} role={role} currentTier={currentTier} />;
+    if (!canOpenPage(role, page)) return mainMenu;
+    if (!checkFeatureAccess(page, currentTier) && !can(role, 'features.unlimited')) return mainMenu;
+
     switch (page) {
-      case 'mainMenu': return <MainMenuPage setPage={setPage} isCommander={isCommander} currentTier={userProfile?.subscription?.expiry && userProfile.subscription.expiry > Date.now() ? userProfile.subscription.tier : 'free'} onUpgrade={() => setIsSubscriptionModalOpen(true)} />;
+      case 'mainMenu': return mainMenu;
       case 'intelligenceHub': return <IntelligenceHubPage isOnline={isOnline} currentUserEmail={currentUserEmail} currentNotes={activeProfileNotes} onSaveNotes={handleProfileSave} />;
-      case 'aiChat': return <AIChatPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} />;
-      case 'creative': return <CreativeStudioPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} />;
-      case 'storyReader': return <StoryReaderPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} />;
-      case 'translator': return <TranslatorPage isOnline={isOnline} />;
+      case 'aiChat': return <AIChatPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} conversationId={route.params.conversationId} onConversationChange={id => replaceParams(id ? { conversationId: id } : {})} linkedMessageId={route.params.message} onSearchAll={q => setPage('search', { q })} />;
+      case 'creative': return <CreativeStudioPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} linkedMessageId={route.params.message} />;
+      case 'storyReader': return <StoryReaderPage isOnline={isOnline} currentUserEmail={currentUserEmail} userProfileNotes={activeProfileNotes} view={route.params.view} onViewChange={view => replaceParams(view === 'chat' ? { view } : {})} linkedMessageId={route.params.message} />;
+      case 'translator': return <TranslatorPage isOnline={isOnline} linkedQuery={route.params} onQueryChange={replaceParams} />;
+      case 'exam': return <ExamPage isOnline={isOnline} currentUserEmail={currentUserEmail} reportId={route.params.reportId} onReportChange={id => replaceParams(id ? { reportId: id } : {})} />;
+      case 'examDashboard': return <DashboardPage isOnline={isOnline} setPage={setPage} />;
+      case 'search': return <SearchPage isOnline={isOnline} currentUserEmail={currentUserEmail} setPage={setPage} linkedQuery={route.params} onQueryChange={replaceParams} />;
       case 'aboutContact': return <AboutContactPage />;
+      case 'modelSettings': return <ModelSettingsPage />;
       case 'sikesProfile': return <SikesProfilePage />;
-      case 'adminPanel': return isCommander ? <AdminPanelPage /> : <MainMenuPage setPage={setPage} isCommander={isCommander} currentTier={'free'} onUpgrade={() => setIsSubscriptionModalOpen(true)} />;
-      default: return <MainMenuPage setPage={setPage} isCommander={isCommander} currentTier={'free'} onUpgrade={() => setIsSubscriptionModalOpen(true)} />;
+      case 'adminPanel': return <AdminPanelPage />;
+      case 'userManagement': return <UserManagementPage role={role} currentUserEmail={currentUserEmail} />;
+      default: return mainMenu;
     }
   };
 
   return (
     <div className="flex flex-col h-screen font-sans bg-slate-100 dark:bg-slate-900">
       <Header 
-        page={page} setPage={setPage} theme={theme} setTheme={setTheme} onGoHome={() => setPage('mainMenu')} userProfile={userProfile} onLogout={handleLogout} isCommander={isCommander} onStartAuth={() => setIsLoginModalOpen(true)} onOpenSubscription={() => setIsSubscriptionModalOpen(true)}
+        page={page} setPage={setPage} theme={theme} setTheme={setTheme} onGoHome={() => setPage('mainMenu')} userProfile={userProfile} onLogout={handleLogout} isCommander={isCommander} onStartAuth={() => setIsLoginModalOpen(true)} onOpenSubscription={openSubscription}
       />
       <main className="flex-1 overflow-hidden">
         {renderPage()}
       </main>
       <SelectionCopyPopover popover={selectionPopover} />
-      <LoginModal isOpen={isLoginModalOpen} onClose={() => setIsLoginModalOpen(false)} onLogin={handleLocalLogin} />
-      <SubscriptionModal isOpen={isSubscriptionModalOpen} onClose={() => setIsSubscriptionModalOpen(false)} user={userProfile} onRedeem={handleRedeemCode} />
+      <LoginModal isOpen={isLoginModalOpen} onClose={closeLoginModal} onLogin={handleLogin} />
+      <SubscriptionModal isOpen={isSubscriptionModalOpen} onClose={() => setIsSubscriptionModalOpen(false)} user={userProfile} reason={upgradeReason} onRedeem={handleRedeemCode} />
     </div>
   );
 };
\ No newline at end of file
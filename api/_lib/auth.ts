@@ -0,0 +1,213 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SubscriptionTier, UserRole } from '../../types';
+import { normalizeRole } from '../../services/permissions';
+import { storeKindFromEnv } from './storeConfig';
+
+/**
+ * ACCOUNTS & SESSIONS
+ * Password accounts live behind AccountStore (memory for local testing, JSON
+ * files for self-hosting, a shared KV in production). Passwords are hashed with
+ * scrypt; sessions are tokens signed with AUTH_SECRET. Routes check each token
+ * against the stored account, so deleting an account or changing its role or tier
+ * takes effect on the next request. Roles and granted tiers are stored on the
+ * account; OWNER_EMAILS and ADMIN_EMAILS (comma-separated) bootstrap the
+ * first owners and administrators.
+ */
+export interface Account {
+    email: string;
+    name: string;
+    role: UserRole;
+    passwordHash: string;
+    salt: string;
+    createdAt: number;
+    /** Tier granted by an admin; see api/users.ts. */
+    subscription?: { tier: SubscriptionTier; expiry: number };
+}
+
+export interface AccountStore {
+    get(email: string): Promise<Account | null>;
+    put(account: Account): Promise<void>;
+    list(): Promise<Account[]>;
+    delete(email: string): Promise<void>;
+}
+
+export interface Session {
+    email: string;
+    name: string;
+    role: UserRole;
+    subscription?: Account['subscription'];
+    expiresAt: number;
+}
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+export function createMemoryAccountStore(): AccountStore {
+    const accounts = new Map<string, Account>();
+    return {
+        async get(email) {
+            return accounts.get(email) || null;
+        },
+        async put(account) {
+            accounts.set(account.email, account);
+        },
+        async list() {
+            return Array.from(accounts.values());
+        },
+        async delete(email) {
+            accounts.delete(email);
+        }
+    };
+}
+
+export function createFileAccountStore(dir: string): AccountStore {
+    const fileFor = (email: string) => path.join(dir, `${encodeURIComponent(email)}.json`);
+    return {
+        async get(email) {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(email), 'utf8'));
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async put(account) {
+            await fs.mkdir(dir, { recursive: true });
+            const file = fileFor(account.email);
+            await fs.writeFile(`${file}.tmp`, JSON.stringify(account));
+            await fs.rename(`${file}.tmp`, file);
+        },
+        async list() {
+            let files: string[];
+            try {
+                files = await fs.readdir(dir);
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return [];
+                throw error;
+            }
+            return Promise.all(files.filter(f => f.endsWith('.json')).map(async f => JSON.parse(await fs.readFile(path.join(dir, f), 'utf8'))));
+        },
+        async delete(email) {
+            await fs.rm(fileFor(email), { force: true });
+        }
+    };
+}
+
+let envAccountStore: AccountStore | null = null;
+
+/**
+ * AUTH_STORE=file keeps accounts in AUTH_DATA_DIR; AUTH_STORE=memory is per
+ * instance. Throws when unset. Routes loaded in the same process share one store.
+ */
+export function accountStoreFromEnv(): AccountStore {
+    if (!envAccountStore) {
+        envAccountStore = storeKindFromEnv('AUTH_STORE') === 'file'
+            ? createFileAccountStore(process.env.AUTH_DATA_DIR || '.auth-data')
+            : createMemoryAccountStore();
+    }
+    return envAccountStore;
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const emailList = (value?: string) => (value || '').split(',').map(normalizeEmail).filter(Boolean);
+
+/** Accounts listed in OWNER_EMAILS / ADMIN_EMAILS are promoted on every sign-in; others keep their stored role. */
+export function roleFor(account: Pick<Account, 'email' | 'role'>): UserRole {
+    if (emailList(process.env.OWNER_EMAILS).includes(account.email)) return 'owner';
+    const role = normalizeRole(account.role);
+    return role !== 'owner' && emailList(process.env.ADMIN_EMAILS).includes(account.email) ? 'admin' : role;
+}
+
+function deriveHash(password: string, salt: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key));
+    });
+}
+
+export async function hashPassword(password: string): Promise<{ passwordHash: string; salt: string }> {
+    const salt = randomBytes(16).toString('hex');
+    return { passwordHash: (await deriveHash(password, salt)).toString('hex'), salt };
+}
+
+export async function verifyPassword(account: Account, password: string): Promise<boolean> {
+    const expected = Buffer.from(account.passwordHash, 'hex');
+    const actual = await deriveHash(password, account.salt);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/** Extends an active grant by `days`, or starts a new one from now; the tier is replaced either way. */
+export function extendSubscription(account: Account, tier: SubscriptionTier, days: number, now: number = Date.now()) {
+    const start = account.subscription && account.subscription.expiry > now ? account.subscription.expiry : now;
+    account.subscription = { tier, expiry: start + days * 24 * 60 * 60 * 1000 };
+}
+
+/** `<payload>.<signature>`, both base64url. Throws when AUTH_SECRET is not configured. */
+export function issueSessionToken(account: Pick<Account, 'email' | 'name' | 'role' | 'subscription'>, now: number = Date.now()): { token: string; session: Session } {
+    const secret = process.env.AUTH_SECRET;
+    if (!secret) throw new Error("AUTH_SECRET environment variable is missing.");
+    const session: Session = {
+        email: account.email,
+        name: account.name,
+        role: roleFor(account),
+        ...(account.subscription && { subscription: account.subscription }),
+        expiresAt: now + SESSION_TTL_MS
+    };
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+    return { token: `${payload}.${sign(payload, secret)}`, session };
+}
+
+export function verifySessionToken(token: string, now: number = Date.now()): Session | null {
+    const secret = process.env.AUTH_SECRET;
+    const [payload, signature] = token.split('.');
+    if (!secret || !payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const session: Session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        return session.expiresAt > now ? session : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Token plus the public part of the account; never the hash. */
+export function sessionResponse(account: Account) {
+    const { token, session } = issueSessionToken(account);
+    return {
+        token,
+        expiresAt: session.expiresAt,
+        user: { name: session.name, email: session.email, role: session.role, ...(session.subscription && { subscription: session.subscription }) }
+    };
+}
+
+/** The signed token behind an `Authorization: Bearer` header, if any; not yet checked against the account. */
+function tokenFromRequest(req: any): Session | null {
+    const header = String(req.headers?.authorization || '');
+    return header.startsWith('Bearer ') ? verifySessionToken(header.slice(7).trim()) : null;
+}
+
+/**
+ * The caller's session with the role and tier their account has now. Null when the
+ * token is invalid, the account was deleted, or the account was re-created after
+ * the token was issued.
+ */
+export async function sessionFromRequest(req: any, store?: AccountStore): Promise<Session | null> {
+    const token = tokenFromRequest(req);
+    if (!token) return null;
+    // Anonymous callers never need the account store, so a missing AUTH_STORE only fails signed-in ones
+    const account = await (store || accountStoreFromEnv()).get(token.email);
+    if (!account || token.expiresAt - SESSION_TTL_MS < account.createdAt) return null;
+    const { subscription, ...session } = token;
+    return { ...session, name: account.name, role: roleFor(account), ...(account.subscription && { subscription: account.subscription }) };
+}
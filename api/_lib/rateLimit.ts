@@ -0,0 +1,109 @@
+import { SubscriptionTier } from '../../types';
+
+/**
+ * PROXY THROTTLE
+ * Token buckets keyed by user identity and request kind, sized by subscription tier.
+ * Bucket and usage counters live behind RateLimitStore so a shared KV can replace
+ * the per-instance memory store in production.
+ */
+export type RequestKind = 'text' | 'tts' | 'image';
+
+export interface BucketLimit {
+    capacity: number;
+    refillPerMinute: number;
+}
+
+export const TIER_LIMITS: Record<SubscriptionTier, Record<RequestKind, BucketLimit>> = {
+    free: {
+        text: { capacity: 10, refillPerMinute: 5 },
+        tts: { capacity: 3, refillPerMinute: 1 },
+        image: { capacity: 2, refillPerMinute: 0.5 }
+    },
+    study: {
+        text: { capacity: 30, refillPerMinute: 20 },
+        tts: { capacity: 10, refillPerMinute: 5 },
+        image: { capacity: 5, refillPerMinute: 2 }
+    },
+    pro: {
+        text: { capacity: 60, refillPerMinute: 40 },
+        tts: { capacity: 20, refillPerMinute: 10 },
+        image: { capacity: 10, refillPerMinute: 5 }
+    }
+};
+
+export interface RateLimitStore {
+    get<T>(key: string): Promise<T | null>;
+    set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const entries = new Map<string, { value: any; expiresAt: number }>();
+    return {
+        async get(key) {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (entry.expiresAt < Date.now()) {
+                entries.delete(key);
+                return null;
+            }
+            return entry.value;
+        },
+        async set(key, value, ttlMs = 24 * 60 * 60 * 1000) {
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        }
+    };
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    retryAfterSeconds: number;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+export function requestKindFor(type: string | undefined): RequestKind {
+    if (type === 'tts' || type === 'image') return type;
+    return 'text';
+}
+
+/** Takes one token from the caller's bucket and records daily usage when allowed. */
+export async function consumeToken(
+    store: RateLimitStore,
+    identity: string,
+    tier: SubscriptionTier,
+    kind: RequestKind,
+    now: number = Date.now()
+): Promise<RateLimitResult> {
+    const limit = TIER_LIMITS[tier][kind];
+    const key = `bucket:${identity}:${kind}`;
+    const refillPerMs = limit.refillPerMinute / 60000;
+
+    const saved = await store.get<BucketState>(key);
+    const elapsed = saved ? Math.max(0, now - saved.updatedAt) : 0;
+    const tokens = saved ? Math.min(limit.capacity, saved.tokens + elapsed * refillPerMs) : limit.capacity;
+
+    if (tokens < 1) {
+        await store.set<BucketState>(key, { tokens, updatedAt: now });
+        return {
+            allowed: false,
+            limit: limit.capacity,
+            remaining: 0,
+            retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000)
+        };
+    }
+
+    await store.set<BucketState>(key, { tokens: tokens - 1, updatedAt: now });
+    const usageKey = `usage:${identity}:${kind}:${new Date(now).toISOString().slice(0, 10)}`;
+    await store.set(usageKey, ((await store.get<number>(usageKey)) || 0) + 1);
+
+    return { allowed: true, limit: limit.capacity, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+}
+
+export async function getDailyUsage(store: RateLimitStore, identity: string, kind: RequestKind, now: number = Date.now()): Promise<number> {
+    return (await store.get<number>(`usage:${identity}:${kind}:${new Date(now).toISOString().slice(0, 10)}`)) || 0;
+}
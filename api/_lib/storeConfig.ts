@@ -0,0 +1,27 @@
+/**
+ * Which backend a server store uses: `file` or `memory`. There is no default.
+ * Memory is per instance, so on serverless hosts accounts and sync data vanish
+ * and single-use codes can be redeemed once per instance; it has to be chosen
+ * on purpose. An unset or unknown value throws, and the route answers with a 500.
+ */
+export type StoreKind = 'file' | 'memory';
+
+export function storeKindFromEnv(variable: string): StoreKind {
+    const kind = process.env[variable];
+    if (kind === 'file' || kind === 'memory') return kind;
+    throw new Error(`${variable} environment variable must be "file" or "memory" (memory is for local testing only).`);
+}
+
+/**
+ * Resolves a store inside a handler. A configuration error is answered with a
+ * JSON 500 naming the variable, and null is returned so the handler stops.
+ */
+export function storeForRequest<T>(res: any, createStore: () => T): T | null {
+    try {
+        return createStore();
+    } catch (error: any) {
+        console.error("Store Config Error:", error.message);
+        res.status(500).json({ error: error.message });
+        return null;
+    }
+}
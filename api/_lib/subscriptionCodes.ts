@@ -0,0 +1,115 @@
+import { createPrivateKey, createPublicKey, randomBytes, sign, verify } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SubscriptionTier } from '../../types';
+import { storeKindFromEnv } from './storeConfig';
+
+/**
+ * SUBSCRIPTION CODES
+ * A code is `SIG1.<payload>.<signature>`: the payload (tier, days, unique id) as
+ * base64url JSON, signed with an Ed25519 key. Only the minting side holds
+ * SUBSCRIPTION_SIGNING_KEY; redemption needs SUBSCRIPTION_PUBLIC_KEY alone, so a
+ * leaked bundle or redeem server cannot produce new codes. Each id can be claimed
+ * once through RedemptionStore.
+ */
+export interface CodePayload {
+    id: string;
+    tier: Exclude<SubscriptionTier, 'free'>;
+    days: number;
+    issuedAt: number;
+}
+
+export interface Redemption {
+    id: string;
+    email: string;
+    tier: CodePayload['tier'];
+    days: number;
+    redeemedAt: number;
+}
+
+export interface RedemptionStore {
+    /** Records the redemption unless the id was already claimed; resolves false in that case. */
+    claim(redemption: Redemption): Promise<boolean>;
+    get(id: string): Promise<Redemption | null>;
+}
+
+export const CODE_PREFIX = 'SIG1';
+export const CODE_TIERS: CodePayload['tier'][] = ['study', 'pro'];
+export const MAX_CODE_DAYS = 366;
+export const MAX_MINT_BATCH = 100;
+
+/** PEM keys pasted into a single-line env var usually arrive with literal `\n`. */
+const readPem = (value: string) => value.replace(/\\n/g, '\n');
+
+export function mintCode(tier: CodePayload['tier'], days: number, signingKeyPem: string, now: number = Date.now()): { code: string; payload: CodePayload } {
+    const payload: CodePayload = { id: randomBytes(8).toString('hex'), tier, days, issuedAt: now };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = sign(null, Buffer.from(encoded), createPrivateKey(readPem(signingKeyPem))).toString('base64url');
+    return { code: `${CODE_PREFIX}.${encoded}.${signature}`, payload };
+}
+
+/** The payload of a correctly signed code, or null for anything malformed or forged. */
+export function verifyCode(code: string, publicKeyPem: string): CodePayload | null {
+    const [prefix, encoded, signature] = code.trim().split('.');
+    if (prefix !== CODE_PREFIX || !encoded || !signature) return null;
+    try {
+        if (!verify(null, Buffer.from(encoded), createPublicKey(readPem(publicKeyPem)), Buffer.from(signature, 'base64url'))) return null;
+        const payload: CodePayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+        const valid = typeof payload.id === 'string' && CODE_TIERS.includes(payload.tier)
+            && Number.isInteger(payload.days) && payload.days >= 1 && payload.days <= MAX_CODE_DAYS;
+        return valid ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+export function createMemoryRedemptionStore(): RedemptionStore {
+    const redemptions = new Map<string, Redemption>();
+    return {
+        async claim(redemption) {
+            if (redemptions.has(redemption.id)) return false;
+            redemptions.set(redemption.id, redemption);
+            return true;
+        },
+        async get(id) {
+            return redemptions.get(id) || null;
+        }
+    };
+}
+
+export function createFileRedemptionStore(dir: string): RedemptionStore {
+    const fileFor = (id: string) => path.join(dir, `${encodeURIComponent(id)}.json`);
+    return {
+        async claim(redemption) {
+            await fs.mkdir(dir, { recursive: true });
+            try {
+                // `wx` fails if the file exists, so two concurrent redemptions cannot both win
+                await fs.writeFile(fileFor(redemption.id), JSON.stringify(redemption), { flag: 'wx' });
+                return true;
+            } catch (error: any) {
+                if (error?.code === 'EEXIST') return false;
+                throw error;
+            }
+        },
+        async get(id) {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return null;
+                throw error;
+            }
+        }
+    };
+}
+
+let envRedemptionStore: RedemptionStore | null = null;
+
+/** CODES_STORE=file keeps redemptions in CODES_DATA_DIR; CODES_STORE=memory is per instance. Throws when unset. */
+export function redemptionStoreFromEnv(): RedemptionStore {
+    if (!envRedemptionStore) {
+        envRedemptionStore = storeKindFromEnv('CODES_STORE') === 'file'
+            ? createFileRedemptionStore(process.env.CODES_DATA_DIR || '.codes-data')
+            : createMemoryRedemptionStore();
+    }
+    return envRedemptionStore;
+}
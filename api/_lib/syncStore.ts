@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { isNewerClock, recordId, SYNC_COLLECTIONS, SyncChange, SyncRecord, SyncRequest, SyncResponse } from '../../services/syncProtocol';
+import { MAX_BODY_BYTES } from './validation';
+import { storeKindFromEnv } from './storeConfig';
+
+/**
+ * SYNC STORE
+ * Per-user record sets behind a two-method SyncStore, so the in-memory store used
+ * for local testing, the JSON file store for self-hosting, or a shared KV in
+ * production can be swapped without touching the merge rules in applySync.
+ */
+export interface UserSyncState {
+    revision: number;
+    records: Record<string, SyncRecord>;
+}
+
+export interface SyncStore {
+    load(user: string): Promise<UserSyncState | null>;
+    save(user: string, state: UserSyncState): Promise<void>;
+}
+
+export const MAX_SYNC_CHANGES = 500;
+const MAX_KEY_LENGTH = 200;
+
+export function createMemorySyncStore(): SyncStore {
+    const users = new Map<string, UserSyncState>();
+    return {
+        async load(user) {
+            const state = users.get(user);
+            return state ? JSON.parse(JSON.stringify(state)) : null;
+        },
+        async save(user, state) {
+            users.set(user, JSON.parse(JSON.stringify(state)));
+        }
+    };
+}
+
+/** One JSON file per user under `dir`; writes go through a temp file so a crash never leaves half a file. */
+export function createFileSyncStore(dir: string): SyncStore {
+    const fileFor = (user: string) => path.join(dir, `${encodeURIComponent(user)}.json`);
+    return {
+        async load(user) {
+            try {
+                return JSON.parse(await fs.readFile(fileFor(user), 'utf8'));
+            } catch (error: any) {
+                if (error?.code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async save(user, state) {
+            await fs.mkdir(dir, { recursive: true });
+            const file = fileFor(user);
+            await fs.writeFile(`${file}.tmp`, JSON.stringify(state));
+            await fs.rename(`${file}.tmp`, file);
+        }
+    };
+}
+
+let envSyncStore: SyncStore | null = null;
+
+/** SYNC_STORE=file keeps data across restarts in SYNC_DATA_DIR; SYNC_STORE=memory is per instance. Throws when unset. */
+export function createSyncStoreFromEnv(): SyncStore {
+    if (!envSyncStore) {
+        envSyncStore = storeKindFromEnv('SYNC_STORE') === 'file'
+            ? createFileSyncStore(process.env.SYNC_DATA_DIR || '.sync-data')
+            : createMemorySyncStore();
+    }
+    return envSyncStore;
+}
+
+export type SyncValidationResult =
+    | { ok: true; value: SyncRequest }
+    | { ok: false; error: string; field?: string };
+
+const fail = (error: string, field?: string): SyncValidationResult => ({ ok: false, error, field });
+
+function validateChange(change: any, index: number): string | null {
+    const at = `changes[${index}]`;
+    if (typeof change !== 'object' || change === null || Array.isArray(change)) return `${at} must be an object`;
+    if (!SYNC_COLLECTIONS.includes(change.collection)) return `${at}.collection is not a synced collection`;
+    if (typeof change.key !== 'string' || !change.key || change.key.length > MAX_KEY_LENGTH) return `${at}.key must be a string of 1-${MAX_KEY_LENGTH} characters`;
+    if (!Number.isFinite(change.updatedAt) || change.updatedAt <= 0) return `${at}.updatedAt must be a timestamp`;
+    if (typeof change.deviceId !== 'string' || !change.deviceId) return `${at}.deviceId is required`;
+    if (change.deleted !== undefined && typeof change.deleted !== 'boolean') return `${at}.deleted must be a boolean`;
+    if (!change.deleted && change.data === undefined) return `${at}.data is required unless deleted`;
+    return null;
+}
+
+export function validateSyncRequest(body: any, rawSize?: number): SyncValidationResult {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return fail("Request body must be a JSON object.");
+
+    const size = rawSize ?? JSON.stringify(body).length;
+    if (size > MAX_BODY_BYTES) return fail(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+
+    if (!Number.isInteger(body.since) || body.since < 0) return fail("since must be a non-negative integer.", 'since');
+    const changes = body.changes ?? [];
+    if (!Array.isArray(changes)) return fail("changes must be an array.", 'changes');
+    if (changes.length > MAX_SYNC_CHANGES) return fail(`At most ${MAX_SYNC_CHANGES} changes are accepted per request.`, 'changes');
+    for (let i = 0; i < changes.length; i++) {
+        const error = validateChange(changes[i], i);
+        if (error) return fail(error, 'changes');
+    }
+    return { ok: true, value: { since: body.since, changes } };
+}
+
+const userLocks = new Map<string, Promise<unknown>>();
+
+/** Runs one sync step at a time per user so concurrent devices cannot overwrite each other's load/save. */
+function withUserLock<T>(user: string, task: () => Promise<T>): Promise<T> {
+    const result = (userLocks.get(user) || Promise.resolve()).then(task, task);
+    const settled = result.catch(() => undefined);
+    userLocks.set(user, settled);
+    settled.then(() => { if (userLocks.get(user) === settled) userLocks.delete(user); });
+    return result;
+}
+
+/** Accepts each pushed change that is newer than the stored copy, then returns everything after `since`. */
+export function applySync(store: SyncStore, user: string, request: SyncRequest): Promise<SyncResponse> {
+    return withUserLock(user, async () => {
+        const state = (await store.load(user)) || { revision: 0, records: {} };
+        const rejected: SyncResponse['rejected'] = [];
+        let changed = false;
+
+        request.changes.forEach((change: SyncChange) => {
+            const id = recordId(change.collection, change.key);
+            const existing = state.records[id];
+            if (existing && !isNewerClock(change, existing)) {
+                if (existing.updatedAt !== change.updatedAt || existing.deviceId !== change.deviceId) {
+                    rejected.push({ collection: change.collection, key: change.key });
+                }
+                return;
+            }
+            state.revision += 1;
+            state.records[id] = {
+                collection: change.collection,
+                key: change.key,
+                updatedAt: change.updatedAt,
+                deviceId: change.deviceId,
+                ...(change.deleted ? { deleted: true } : { data: change.data }),
+                revision: state.revision
+            };
+            changed = true;
+        });
+
+        if (changed) await store.save(user, state);
+        return {
+            revision: state.revision,
+            changes: Object.values(state.records).filter(r => r.revision > request.since).sort((a, b) => a.revision - b.revision),
+            rejected
+        };
+    });
+}
@@ -0,0 +1,125 @@
+import { IMAGE_MODELS, TEXT_MODELS, TTS_MODELS } from '../../services/modelRouting';
+
+/**
+ * PROXY REQUEST GATE
+ * Validates the client body before anything reaches the SDK, so the endpoint
+ * cannot be used as an open relay for arbitrary models or oversized payloads.
+ */
+export type ProxyRequestType = 'text' | 'stream' | 'tts' | 'image';
+
+export interface ProxyPart {
+    text?: string;
+    inlineData?: { data: string; mimeType: string };
+}
+
+export interface ProxyContent {
+    role?: 'user' | 'model';
+    parts: ProxyPart[];
+}
+
+export interface ProxyRequest {
+    type: ProxyRequestType;
+    model: string;
+    contents: string | ProxyContent | ProxyContent[];
+    config: Record<string, any>;
+}
+
+/** Shares the client's model catalog; first entry is the default when the client omits `model`. */
+export const MODEL_ALLOW_LIST: Record<ProxyRequestType, string[]> = {
+    text: TEXT_MODELS,
+    stream: TEXT_MODELS,
+    tts: TTS_MODELS,
+    image: IMAGE_MODELS
+};
+
+const CONFIG_KEYS: Record<ProxyRequestType, string[]> = {
+    text: ['systemInstruction', 'responseMimeType', 'responseSchema', 'temperature', 'maxOutputTokens'],
+    stream: ['systemInstruction', 'temperature', 'maxOutputTokens'],
+    tts: ['speechConfig'],
+    image: ['imageConfig']
+};
+
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const MAX_INLINE_BYTES = 3 * 1024 * 1024;
+export const MAX_TEXT_CHARS = 200000;
+const INLINE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
+
+export type ValidationResult =
+    | { ok: true; value: ProxyRequest }
+    | { ok: false; error: string; field?: string };
+
+const fail = (error: string, field?: string): ValidationResult => ({ ok: false, error, field });
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateContent(content: any, path: string, totals: { chars: number; inlineBytes: number }): string | null {
+    if (!isPlainObject(content)) return `${path} must be an object`;
+    if (content.role !== undefined && content.role !== 'user' && content.role !== 'model') return `${path}.role must be "user" or "model"`;
+    if (!Array.isArray(content.parts) || content.parts.length === 0) return `${path}.parts must be a non-empty array`;
+
+    for (let i = 0; i < content.parts.length; i++) {
+        const part = content.parts[i];
+        const partPath = `${path}.parts[${i}]`;
+        if (!isPlainObject(part)) return `${partPath} must be an object`;
+        if (part.text !== undefined) {
+            if (typeof part.text !== 'string') return `${partPath}.text must be a string`;
+            totals.chars += part.text.length;
+        } else if (part.inlineData !== undefined) {
+            const { data, mimeType } = part.inlineData || {};
+            if (typeof data !== 'string' || typeof mimeType !== 'string') return `${partPath}.inlineData needs string data and mimeType`;
+            if (!INLINE_MIME_TYPES.includes(mimeType)) return `${partPath}.inlineData.mimeType "${mimeType}" is not accepted`;
+            totals.inlineBytes += Math.floor(data.length * 3 / 4);
+        } else {
+            return `${partPath} must contain text or inlineData`;
+        }
+    }
+    return null;
+}
+
+export function validateProxyRequest(body: any, rawSize?: number): ValidationResult {
+    if (!isPlainObject(body)) return fail("Request body must be a JSON object.");
+
+    const size = rawSize ?? JSON.stringify(body).length;
+    if (size > MAX_BODY_BYTES) return fail(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+
+    const type: ProxyRequestType = body.type === undefined ? 'text' : body.type;
+    if (!Object.prototype.hasOwnProperty.call(MODEL_ALLOW_LIST, type)) return fail(`Unknown request type "${body.type}".`, 'type');
+
+    const model = body.model === undefined ? MODEL_ALLOW_LIST[type][0] : body.model;
+    if (typeof model !== 'string' || !MODEL_ALLOW_LIST[type].includes(model)) {
+        return fail(`Model "${body.model}" is not allowed for ${type} requests.`, 'model');
+    }
+
+    const totals = { chars: 0, inlineBytes: 0 };
+    const { contents } = body;
+    if (typeof contents === 'string') {
+        if (!contents.trim()) return fail("contents must not be empty.", 'contents');
+        totals.chars += contents.length;
+    } else if (Array.isArray(contents)) {
+        if (contents.length === 0) return fail("contents must not be empty.", 'contents');
+        for (let i = 0; i < contents.length; i++) {
+            const err = validateContent(contents[i], `contents[${i}]`, totals);
+            if (err) return fail(err, 'contents');
+        }
+    } else {
+        const err = validateContent(contents, 'contents', totals);
+        if (err) return fail(err, 'contents');
+    }
+
+    if (totals.chars > MAX_TEXT_CHARS) return fail(`Text content exceeds ${MAX_TEXT_CHARS} characters.`, 'contents');
+    if (totals.inlineBytes > MAX_INLINE_BYTES) return fail(`Inline images exceed ${MAX_INLINE_BYTES} bytes.`, 'contents');
+
+    const config = body.config === undefined ? {} : body.config;
+    if (!isPlainObject(config)) return fail("config must be an object.", 'config');
+    const unknownKey = Object.keys(config).find(k => !CONFIG_KEYS[type].includes(k));
+    if (unknownKey) return fail(`config.${unknownKey} is not allowed for ${type} requests.`, 'config');
+    if (config.systemInstruction !== undefined && typeof config.systemInstruction !== 'string') {
+        return fail("config.systemInstruction must be a string.", 'config');
+    }
+    if (config.temperature !== undefined && (typeof config.temperature !== 'number' || config.temperature < 0 || config.temperature > 2)) {
+        return fail("config.temperature must be a number between 0 and 2.", 'config');
+    }
+
+    return { ok: true, value: { type, model, contents, config } };
+}
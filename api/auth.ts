@@ -0,0 +1,93 @@
+import { applyCors } from './_lib/cors';
+import { consumeToken, createMemoryRateLimitStore } from './_lib/rateLimit';
+import {
+  Account,
+  accountStoreFromEnv,
+  hashPassword,
+  MIN_PASSWORD_LENGTH,
+  normalizeEmail,
+  sessionFromRequest,
+  sessionResponse,
+  verifyPassword
+} from './_lib/auth';
+import { storeForRequest } from './_lib/storeConfig';
+
+const attemptStore = createMemoryRateLimitStore();
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * AUTH ROUTE
+ * POST { action: 'register', name, email, password }
+ * POST { action: 'login', email, password }
+ * POST { action: 'session' } with `Authorization: Bearer <token>` renews a valid session.
+ */
+export default async function handler(req: any, res: any) {
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  if (!process.env.AUTH_SECRET) {
+    return res.status(500).json({ error: "AUTH_SECRET environment variable is missing." });
+  }
+
+  const accountStore = storeForRequest(res, accountStoreFromEnv);
+  if (!accountStore) return;
+
+  const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
+  const { action } = body;
+
+  try {
+    if (action === 'session') {
+      const session = await sessionFromRequest(req, accountStore);
+      const account = session && await accountStore.get(session.email);
+      if (!account) return res.status(401).json({ error: "Session expired. Please sign in again.", code: 'unauthenticated' });
+      return res.status(200).json(sessionResponse(account));
+    }
+
+    if (action !== 'register' && action !== 'login') {
+      return res.status(400).json({ error: `Unknown action "${action}".`, code: 'invalid_request', field: 'action' });
+    }
+
+    const email = normalizeEmail(String(body.email || ''));
+    const password = String(body.password || '');
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: "Enter a valid email address.", code: 'invalid_request', field: 'email' });
+    }
+
+    // Password guessing is throttled per account with the proxy's free-tier text bucket
+    const attempt = await consumeToken(attemptStore, `auth:${email}`, 'free', 'text');
+    if (!attempt.allowed) {
+      res.setHeader('Retry-After', String(attempt.retryAfterSeconds));
+      return res.status(429).json({ error: `Too many attempts. Retry in ${attempt.retryAfterSeconds}s.`, code: 'rate_limited' });
+    }
+
+    if (action === 'register') {
+      const name = String(body.name || '').trim();
+      if (!name) return res.status(400).json({ error: "Enter your name.", code: 'invalid_request', field: 'name' });
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`, code: 'invalid_request', field: 'password' });
+      }
+      if (await accountStore.get(email)) {
+        return res.status(409).json({ error: "An account with this email already exists. Sign in instead.", code: 'account_exists' });
+      }
+      const account: Account = { email, name, role: 'student', ...(await hashPassword(password)), createdAt: Date.now() };
+      await accountStore.put(account);
+      return res.status(200).json(sessionResponse(account));
+    }
+
+    const account = await accountStore.get(email);
+    if (!account || !(await verifyPassword(account, password))) {
+      return res.status(401).json({ error: "Incorrect email or password.", code: 'unauthenticated' });
+    }
+    return res.status(200).json(sessionResponse(account));
+  } catch (error: any) {
+    console.error("Auth Error:", error.message);
+    return res.status(500).json({ error: "Authentication service is unavailable." });
+  }
+}
@@ -0,0 +1,91 @@
+import { applyCors } from './_lib/cors';
+import { accountStoreFromEnv, extendSubscription, sessionFromRequest, sessionResponse } from './_lib/auth';
+import { CODE_TIERS, CodePayload, MAX_CODE_DAYS, MAX_MINT_BATCH, mintCode, redemptionStoreFromEnv, verifyCode } from './_lib/subscriptionCodes';
+import { storeForRequest } from './_lib/storeConfig';
+import { can } from '../services/permissions';
+
+
+/**
+ * SUBSCRIPTION CODES ROUTE
+ * POST { action: 'redeem', code }               any signed-in account
+ * POST { action: 'mint', tier, days, count }    codes.mint
+ * Redeeming verifies the signature with SUBSCRIPTION_PUBLIC_KEY, claims the code's
+ * id, extends the tier on the account and returns a fresh session carrying it.
+ * Minting needs SUBSCRIPTION_SIGNING_KEY and can run on a separate deployment.
+ */
+export default async function handler(req: any, res: any) {
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const accountStore = storeForRequest(res, accountStoreFromEnv);
+  if (!accountStore) return;
+
+  const session = await sessionFromRequest(req, accountStore);
+  if (!session) {
+    return res.status(401).json({ error: "Sign in to use subscription codes.", code: 'unauthenticated' });
+  }
+
+  const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
+
+  try {
+    if (body.action === 'redeem') {
+      const publicKey = process.env.SUBSCRIPTION_PUBLIC_KEY;
+      if (!publicKey) {
+        return res.status(500).json({ error: "SUBSCRIPTION_PUBLIC_KEY environment variable is missing." });
+      }
+      const redemptionStore = storeForRequest(res, redemptionStoreFromEnv);
+      if (!redemptionStore) return;
+      const payload = verifyCode(String(body.code || ''), publicKey);
+      if (!payload) {
+        return res.status(400).json({ error: "This code is not valid.", code: 'invalid_request', field: 'code' });
+      }
+      const account = await accountStore.get(session.email);
+      if (!account) {
+        return res.status(401).json({ error: "Session expired. Please sign in again.", code: 'unauthenticated' });
+      }
+      const claimed = await redemptionStore.claim({ id: payload.id, email: account.email, tier: payload.tier, days: payload.days, redeemedAt: Date.now() });
+      if (!claimed) {
+        return res.status(409).json({ error: "This code has already been redeemed.", code: 'code_redeemed', field: 'code' });
+      }
+      extendSubscription(account, payload.tier, payload.days);
+      await accountStore.put(account);
+      return res.status(200).json(sessionResponse(account));
+    }
+
+    if (body.action === 'mint') {
+      if (!can(session.role, 'codes.mint')) {
+        return res.status(403).json({ error: "Your role does not allow this action.", code: 'forbidden' });
+      }
+      const signingKey = process.env.SUBSCRIPTION_SIGNING_KEY;
+      if (!signingKey) {
+        return res.status(500).json({ error: "SUBSCRIPTION_SIGNING_KEY environment variable is missing." });
+      }
+      const tier = body.tier as CodePayload['tier'];
+      const days = Number(body.days);
+      const count = Number(body.count);
+      if (!CODE_TIERS.includes(tier)) {
+        return res.status(400).json({ error: `Codes can only grant ${CODE_TIERS.join(' or ')}.`, code: 'invalid_request', field: 'tier' });
+      }
+      if (!Number.isInteger(days) || days < 1 || days > MAX_CODE_DAYS) {
+        return res.status(400).json({ error: `days must be between 1 and ${MAX_CODE_DAYS}.`, code: 'invalid_request', field: 'days' });
+      }
+      if (!Number.isInteger(count) || count < 1 || count > MAX_MINT_BATCH) {
+        return res.status(400).json({ error: `count must be between 1 and ${MAX_MINT_BATCH}.`, code: 'invalid_request', field: 'count' });
+      }
+      const codes = Array.from({ length: count }, () => mintCode(tier, days, signingKey).code);
+      return res.status(200).json({ codes });
+    }
+
+    return res.status(400).json({ error: `Unknown action "${body.action}".`, code: 'invalid_request', field: 'action' });
+  } catch (error: any) {
+    console.error("Subscription Code Error:", error.message);
+    return res.status(500).json({ error: "Subscription service is unavailable." });
+  }
+}
@@ -1,11 +1,55 @@
 import { GoogleGenAI, Modality } from "@google/genai";
+import { SubscriptionTier } from '../types';
+import { consumeToken, createMemoryRateLimitStore, requestKindFor } from './_lib/rateLimit';
+import { validateProxyRequest } from './_lib/validation';
+import { applyCors } from './_lib/cors';
+import { sessionFromRequest } from './_lib/auth';
+import { can } from '../services/permissions';
+import { AIErrorCode, blockedResponseError, toAIError } from '../services/aiErrors';
+
+const rateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * The address anonymous callers are throttled by. X-Forwarded-For is written by the
+ * client unless a proxy in front of us replaces it, so it is only read when
+ * TRUST_PROXY is set, and then only the hop that proxy appended (the last entry).
+ */
+function clientAddress(req: any): string {
+  const forwarded = process.env.TRUST_PROXY ? String(req.headers?.['x-forwarded-for'] || '').split(',').pop()?.trim() : '';
+  return forwarded || req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Identity comes from the verified session token; anonymous callers are keyed by IP.
+ * Roles with features.unlimited get the top tier, otherwise the tier granted on the
+ * account; nothing the client sends can raise it.
+ */
+async function resolveCaller(req: any): Promise<{ identity: string; tier: SubscriptionTier }> {
+  const session = await sessionFromRequest(req);
+  if (!session) return { identity: `ip:${clientAddress(req)}`, tier: 'free' };
+
+  const granted = session.subscription && session.subscription.expiry > Date.now() ? session.subscription.tier : null;
+  return {
+    identity: `user:${session.email}`,
+    tier: can(session.role, 'features.unlimited') ? 'pro' : granted || 'free'
+  };
+}
+
+/** Classifies SDK failures so the client can rebuild the same AIError code. */
+function describeError(error: any): { status: number; code: AIErrorCode; message: string } {
+  const aiError = toAIError(error);
+  const status = aiError.code === 'quota' ? 429
+    : aiError.code === 'safety-blocked' ? 422
+    : aiError.status && aiError.status >= 400 ? aiError.status : 500;
+  return {
+    status,
+    code: aiError.code,
+    message: aiError.code === 'quota' ? "Quota exhausted. Retrying in 60s..." : `Handshake Error: ${aiError.message}`
+  };
+}
 
 export default async function handler(req: any, res: any) {
-  // CORS Headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+  applyCors(req, res);
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -20,17 +64,77 @@ export default async function handler(req: any, res: any) {
     return res.status(500).json({ error: "API_KEY environment variable is missing." });
   }
 
-  const { model, contents, config, type } = req.body || {};
+  // Reject malformed bodies and non-allow-listed models before they cost a token.
+  const contentLength = Number(req.headers?.['content-length']) || undefined;
+  const validation = validateProxyRequest(req.body, contentLength);
+  if (!validation.ok) {
+    return res.status(400).json({ error: validation.error, code: 'invalid_request', field: validation.field });
+  }
+  const { model, contents, config, type } = validation.value;
+
+  let caller: { identity: string; tier: SubscriptionTier };
+  try {
+    caller = await resolveCaller(req);
+  } catch (error: any) {
+    console.error("Proxy Auth Error:", error.message);
+    return res.status(500).json({ error: "Account storage is unavailable." });
+  }
+  const { identity, tier } = caller;
+  const kind = requestKindFor(type);
+  const quota = await consumeToken(rateLimitStore, identity, tier, kind);
+  res.setHeader('X-RateLimit-Limit', String(quota.limit));
+  res.setHeader('X-RateLimit-Remaining', String(quota.remaining));
+  if (!quota.allowed) {
+    res.setHeader('Retry-After', String(quota.retryAfterSeconds));
+    return res.status(429).json({
+      error: `Rate limit reached for ${kind} requests on the ${tier} tier. Retry in ${quota.retryAfterSeconds}s.`,
+      code: 'rate_limited',
+      kind,
+      tier,
+      limit: quota.limit,
+      retryAfterSeconds: quota.retryAfterSeconds
+    });
+  }
+
   const ai = new GoogleGenAI({ apiKey });
 
   try {
-    // Standardizing on 'gemini-flash-latest' for the proxy to ensure high availability
-    const targetModel = model || 'gemini-flash-latest';
+    // Server-sent events: one `data: {"text"}` frame per chunk, then `data: [DONE]`.
+    if (type === 'stream') {
+      let clientGone = false;
+      // The request's own 'close' fires once its body is read; the response closing early means the client left
+      res.on?.('close', () => { if (!res.writableEnded) clientGone = true; });
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('Connection', 'keep-alive');
+      res.status(200);
+      const sendEvent = (payload: any) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents,
+          config
+        });
+        for await (const chunk of stream) {
+          if (clientGone) break;
+          const blocked = blockedResponseError(chunk);
+          if (blocked) throw blocked;
+          sendEvent({ text: chunk.text || "" });
+        }
+        res.write('data: [DONE]\n\n');
+      } catch (error: any) {
+        console.error("Proxy Stream Error:", error.message);
+        const { code, message } = describeError(error);
+        sendEvent({ error: message, code });
+      }
+      return res.end();
+    }
 
     if (type === 'tts') {
       const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: contents,
+        model,
+        contents,
         config: {
           ...config,
           responseModalities: [Modality.AUDIO]
@@ -42,22 +146,26 @@ export default async function handler(req: any, res: any) {
 
     if (type === 'image') {
       const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: contents,
-        config: config || {}
+        model,
+        contents,
+        config
       });
+      const blocked = blockedResponseError(response);
+      if (blocked) throw blocked;
       const imagePart = response.candidates?.[0]?.content?.parts?.find((p: any) => p.inlineData);
       if (imagePart && imagePart.inlineData) {
-        return res.status(200).json({ imageUrl: `data:image/png;base64,${imagePart.inlineData.data}` });
+        return res.status(200).json({ imageUrl: `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}` });
       }
       return res.status(500).json({ error: "Image synthesis failed or was blocked." });
     }
 
     const response = await ai.models.generateContent({
-      model: targetModel,
-      contents: contents,
-      config: config || {}
+      model,
+      contents,
+      config
     });
+    const blocked = blockedResponseError(response);
+    if (blocked) throw blocked;
 
     return res.status(200).json({
       text: response.text || "",
@@ -66,9 +174,7 @@ export default async function handler(req: any, res: any) {
 
   } catch (error: any) {
     console.error("Proxy Error:", error.message);
-    const status = error.message?.includes('429') ? 429 : 500;
-    return res.status(status).json({ 
-      error: status === 429 ? "Quota exhausted. Retrying in 60s..." : `Handshake Error: ${error.message}` 
-    });
+    const { status, code, message } = describeError(error);
+    return res.status(status).json({ error: message, code });
   }
 }
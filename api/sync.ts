@@ -0,0 +1,45 @@
+import { applyCors } from './_lib/cors';
+import { accountStoreFromEnv, sessionFromRequest } from './_lib/auth';
+import { applySync, createSyncStoreFromEnv, validateSyncRequest } from './_lib/syncStore';
+import { storeForRequest } from './_lib/storeConfig';
+
+
+/**
+ * SYNC ROUTE
+ * One round trip per sync: the client pushes its changed records and receives
+ * every record accepted since its last revision (see services/syncProtocol.ts).
+ */
+export default async function handler(req: any, res: any) {
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const accountStore = storeForRequest(res, accountStoreFromEnv);
+  const syncStore = accountStore && storeForRequest(res, createSyncStoreFromEnv);
+  if (!accountStore || !syncStore) return;
+
+  const session = await sessionFromRequest(req, accountStore);
+  if (!session) {
+    return res.status(401).json({ error: "Sign in to sync.", code: 'unauthenticated' });
+  }
+  const user = session.email;
+
+  const contentLength = Number(req.headers?.['content-length']) || undefined;
+  const validation = validateSyncRequest(req.body, contentLength);
+  if (!validation.ok) {
+    return res.status(400).json({ error: validation.error, code: 'invalid_request', field: validation.field });
+  }
+
+  try {
+    return res.status(200).json(await applySync(syncStore, user, validation.value));
+  } catch (error: any) {
+    console.error("Sync Error:", error.message);
+    return res.status(500).json({ error: "Sync storage is unavailable." });
+  }
+}
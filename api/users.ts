@@ -0,0 +1,105 @@
+import { SubscriptionTier, UserRole } from '../types';
+import { applyCors } from './_lib/cors';
+import { Account, accountStoreFromEnv, extendSubscription, normalizeEmail, roleFor, sessionFromRequest } from './_lib/auth';
+import { storeForRequest } from './_lib/storeConfig';
+import { assignableRoles, can, Permission, USER_ROLES } from '../services/permissions';
+
+const TIERS: SubscriptionTier[] = ['free', 'study', 'pro'];
+const GRANT_DAYS_MAX = 366;
+
+/** Account fields an admin may see. */
+const publicAccount = (account: Account) => ({
+  name: account.name,
+  email: account.email,
+  role: roleFor(account),
+  createdAt: account.createdAt,
+  ...(account.subscription && { subscription: account.subscription })
+});
+
+/**
+ * USER MANAGEMENT ROUTE
+ * POST { action: 'list' }                                  users.manage
+ * POST { action: 'delete', email }                         users.delete
+ * POST { action: 'setRole', email, role }                  roles.assign
+ * POST { action: 'grantTier', email, tier, days }          tiers.grant
+ * Callers can only act on accounts whose role they could assign, so admins
+ * cannot demote or delete owners and nobody can act on themselves.
+ */
+export default async function handler(req: any, res: any) {
+  applyCors(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const accountStore = storeForRequest(res, accountStoreFromEnv);
+  if (!accountStore) return;
+
+  const session = await sessionFromRequest(req, accountStore);
+  if (!session) {
+    return res.status(401).json({ error: "Sign in to manage users.", code: 'unauthenticated' });
+  }
+
+  const body = typeof req.body === 'object' && req.body !== null ? req.body : {};
+  const required: Record<string, Permission> = { list: 'users.manage', delete: 'users.delete', setRole: 'roles.assign', grantTier: 'tiers.grant' };
+  const permission = required[body.action];
+  if (!permission) {
+    return res.status(400).json({ error: `Unknown action "${body.action}".`, code: 'invalid_request', field: 'action' });
+  }
+  if (!can(session.role, permission)) {
+    return res.status(403).json({ error: "Your role does not allow this action.", code: 'forbidden' });
+  }
+
+  try {
+    if (body.action === 'list') {
+      const accounts = await accountStore.list();
+      return res.status(200).json({ users: accounts.map(publicAccount).sort((a, b) => b.createdAt - a.createdAt) });
+    }
+
+    const email = normalizeEmail(String(body.email || ''));
+    const account = await accountStore.get(email);
+    if (!account) {
+      return res.status(404).json({ error: "No account with this email.", code: 'not_found', field: 'email' });
+    }
+    const manageable = assignableRoles(session.role);
+    if (email === session.email || !manageable.includes(roleFor(account))) {
+      return res.status(403).json({ error: "You cannot change this account.", code: 'forbidden' });
+    }
+
+    if (body.action === 'delete') {
+      await accountStore.delete(email);
+      return res.status(200).json({ deleted: email });
+    }
+
+    if (body.action === 'setRole') {
+      const role = body.role as UserRole;
+      if (!USER_ROLES.includes(role) || !manageable.includes(role)) {
+        return res.status(400).json({ error: `Role "${body.role}" cannot be assigned by your role.`, code: 'invalid_request', field: 'role' });
+      }
+      account.role = role;
+    } else {
+      const tier = body.tier as SubscriptionTier;
+      const days = Number(body.days);
+      if (!TIERS.includes(tier)) {
+        return res.status(400).json({ error: `Unknown tier "${body.tier}".`, code: 'invalid_request', field: 'tier' });
+      }
+      if (tier === 'free') {
+        delete account.subscription;
+      } else {
+        if (!Number.isInteger(days) || days < 1 || days > GRANT_DAYS_MAX) {
+          return res.status(400).json({ error: `days must be between 1 and ${GRANT_DAYS_MAX}.`, code: 'invalid_request', field: 'days' });
+        }
+        extendSubscription(account, tier, days);
+      }
+    }
+    await accountStore.put(account);
+    return res.status(200).json({ user: publicAccount(account) });
+  } catch (error: any) {
+    console.error("User Management Error:", error.message);
+    return res.status(500).json({ error: "Account storage is unavailable." });
+  }
+}
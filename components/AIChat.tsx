@@ -1,25 +1,83 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Icons } from './Icons';
-import { Dropdown, CameraModal, LoadingSpinner } from './Shared';
-import { ChatMessage } from './Chat';
-import { Message, Conversation, PageProps, UserProfile } from '../types';
-import { streamAIChatResponse, generateConversationTitle } from '../services/geminiService';
-import { getConversationsKey, SIKE_USERS_KEY } from '../utils/appUtils';
+import { Dropdown, CameraModal, LoadingSpinner, HighlightedSnippet, ExportMenu } from './Shared';
+import { ChatMessage, useMessageFocus } from './Chat';
+import { Message, Conversation, PageProps, UserProfile, TokenUsage, Persona } from '../types';
+import { streamAIChatResponse, generateConversationTitle, summarizeConversation } from '../services/geminiService';
+import { describeAIError } from '../services/aiErrors';
+import { SIKE_USERS_KEY } from '../utils/appUtils';
+import { allPersonas, DEFAULT_PERSONA } from '../services/personas';
+import { deleteConversation, loadConversations, saveConversation } from '../services/repository';
+import { activeBranch, newestLeaf, siblingsOf } from '../services/conversationTree';
+import { conversationEntries, SearchHit, searchEntries } from '../services/searchIndex';
+import { exportBundle, ExportFormat, exportTranscript } from '../services/conversationExport';
+import { ConversationList } from './ConversationList';
+import { PersonaEditor } from './PersonaEditor';
 
-const chatModes = ['General', 'Technical', 'Creative', 'Academic', 'Linguistic'];
+/** Under each turn: "‹ 2/3 ›" between its alternatives, plus edit (prompts) or regenerate (replies). */
+const TurnControls: React.FC<{
+    message: Message;
+    siblings: Message[];
+    disabled: boolean;
+    onSwitch: (messageId: string) => void;
+    onEdit: () => void;
+    onRegenerate: () => void;
+}> = ({ message, siblings, disabled, onSwitch, onEdit, onRegenerate }) => {
+    const isUser = message.sender === 'user';
+    const position = siblings.findIndex(m => m.id === message.id);
+    const buttonClass = "p-1.5 rounded-lg text-slate-400 hover:text-cyan-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+    return (
+        <div className={`flex items-center gap-1 mt-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
+            {siblings.length > 1 && (
+                <div className="flex items-center gap-1 text-[10px] font-black font-mono text-slate-400">
+                    <button onClick={() => onSwitch(siblings[position - 1].id)} disabled={disabled || position <= 0} title="Previous version" className={buttonClass}><Icons.ChevronLeft className="h-3 w-3" /></button>
+                    <span>{position + 1}/{siblings.length}</span>
+                    <button onClick={() => onSwitch(siblings[position + 1].id)} disabled={disabled || position >= siblings.length - 1} title="Next version" className={buttonClass}><Icons.ChevronRight className="h-3 w-3" /></button>
+                </div>
+            )}
+            {isUser ? (
+                <button onClick={onEdit} disabled={disabled} title="Edit and resend" className={buttonClass}><Icons.Pencil className="h-3 w-3" /></button>
+            ) : (
+                <button onClick={onRegenerate} disabled={disabled} title="Regenerate" className={buttonClass}><Icons.RefreshCw className="h-3 w-3" /></button>
+            )}
+        </div>
+    );
+};
 
-export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = ({ isOnline, currentUserEmail, userProfileNotes }) => {
+const HISTORY_SEARCH_LIMIT = 30;
+
+/**
+ * `conversationId` comes from the `#/chat/:conversationId` route; selecting a conversation reports it back.
+ * `linkedMessageId` (`?message=`, from a search result) scrolls to that message, switching branch if needed.
+ */
+export const AIChatPage: React.FC<PageProps & {
+    userProfileNotes?: string;
+    conversationId?: string;
+    onConversationChange?: (id: string | null) => void;
+    linkedMessageId?: string;
+    onSearchAll?: (query: string) => void;
+}> = ({ isOnline, currentUserEmail, userProfileNotes, conversationId, onConversationChange, linkedMessageId, onSearchAll }) => {
     const [conversations, setConversations] = useState<Conversation[]>([]);
-    const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+    const [currentConversationId, setCurrentConversationId] = useState<string | null>(conversationId || null);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [attachedImages, setAttachedImages] = useState<{ base64: string; mimeType: string; name: string }[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
-    const [chatMode, setChatMode] = useState('General');
+    const [personas, setPersonas] = useState<Persona[]>(allPersonas);
+    // Persona for the next new conversation; an open conversation uses its own
+    const [newChatPersonaId, setNewChatPersonaId] = useState(DEFAULT_PERSONA.id);
+    const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
     const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
+    const [historyQuery, setHistoryQuery] = useState('');
+    // Kept in state because reporting the conversation back to the route drops the query
+    const [focusMessageId, setFocusMessageId] = useState(linkedMessageId);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const currentUser: UserProfile | null = useMemo(() => {
         if (!currentUserEmail) return null;
@@ -29,67 +87,120 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
 
     const userName = currentUser?.name || 'Guest';
 
-    const convKey = getConversationsKey(currentUserEmail || null);
     useEffect(() => {
-        if (convKey) {
-            const saved = localStorage.getItem(convKey);
-            if (saved) setConversations(JSON.parse(saved).sort((a: any, b: any) => b.lastUpdated - a.lastUpdated));
-        }
-    }, [convKey]);
+        loadConversations(currentUserEmail).then(list => {
+            setConversations(list);
+            // A link to a conversation this user does not have opens a new one instead
+            setCurrentConversationId(id => id && list.some(c => c.id === id) ? id : null);
+        }).catch(e => console.error("Failed to load conversations:", e));
+    }, [currentUserEmail]);
+
+    useEffect(() => { setCurrentConversationId(conversationId || null); }, [conversationId]);
+    useEffect(() => { onConversationChange?.(currentConversationId); }, [currentConversationId]);
 
-    const currentMessages = useMemo(() => {
-        const convo = conversations.find(c => c.id === currentConversationId);
-        return convo ? convo.messages : [];
-    }, [currentConversationId, conversations]);
+    /** Queues the given conversation from an updated list for the repository's next batched write. */
+    const persistConversation = (list: Conversation[], id: string) => {
+        const convo = list.find(c => c.id === id);
+        if (convo) saveConversation(currentUserEmail, convo);
+    };
+
+    const currentConversation = conversations.find(c => c.id === currentConversationId);
+
+    /** The library version wins so edits apply; the stored copy covers a persona deleted here. */
+    const activePersona: Persona = useMemo(() => {
+        const stored = currentConversation?.persona;
+        return personas.find(p => p.id === (stored?.id || newChatPersonaId)) || stored || DEFAULT_PERSONA;
+    }, [currentConversation, personas, newChatPersonaId]);
+    const personaOptions = personas.some(p => p.id === activePersona.id) ? personas : [...personas, activePersona];
+    const canUpload = activePersona.attachments.includes('upload');
+    const canUseCamera = activePersona.attachments.includes('camera');
+
+    useEffect(() => { if (!activePersona.attachments.length) setAttachedImages([]); }, [activePersona.attachments.length]);
+
+    /** The branch on screen; it is also the history sent with the next prompt. */
+    const currentMessages = useMemo(() => currentConversation ? activeBranch(currentConversation) : [], [currentConversation]);
 
     useEffect(() => { messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [currentMessages, isLoading]);
 
-    const handleSubmit = async (e?: React.FormEvent) => {
-        e?.preventDefault();
-        if ((!input.trim() && attachedImages.length === 0) || isLoading || !isOnline) return;
-        let convoId = currentConversationId || Date.now().toString();
-        if (!currentConversationId) setCurrentConversationId(convoId);
-        
-        const userMsg: Message = { id: Date.now().toString(), text: input, sender: 'user' };
-        if (attachedImages.length > 0) userMsg.imageUrls = attachedImages.map(img => `data:${img.mimeType};base64,${img.base64}`);
-        const botMsg: Message = { id: (Date.now() + 1).toString(), text: '', sender: 'bot' };
-        
+    /** Images stored on a sent prompt as data URLs, back in the shape the model call takes. */
+    const imagesOf = (message: Message) => (message.imageUrls || []).map(url => {
+        const [header, base64] = url.split(',');
+        return { base64, mimeType: header.replace(/^data:/, '').replace(/;base64$/, '') };
+    });
+
+    /**
+     * Streams a reply to `promptMsg` as its newest child and makes that reply the active leaf.
+     * `history` is the branch before the prompt; `addPrompt` is false when regenerating.
+     */
+    const runTurn = async (convoId: string, promptMsg: Message, history: Message[], addPrompt: boolean) => {
+        const persona = activePersona;
+        const botMsg: Message = { id: (Date.now() + 1).toString(), text: '', sender: 'bot', parentId: promptMsg.id, chatMode: persona.name };
+        const added = addPrompt ? [promptMsg, botMsg] : [botMsg];
+
         setConversations(prev => {
             let updated;
             const existing = prev.find(c => c.id === convoId);
             if (existing) {
-                updated = prev.map(c => c.id === convoId ? { ...c, messages: [...c.messages, userMsg, botMsg], lastUpdated: Date.now() } : c);
+                updated = prev.map(c => c.id === convoId ? { ...c, messages: [...c.messages, ...added], activeLeafId: botMsg.id, lastUpdated: Date.now(), persona } : c);
             } else {
-                updated = [{ id: convoId, title: 'New Transmission', messages: [userMsg, botMsg], lastUpdated: Date.now() }, ...prev];
+                updated = [{ id: convoId, title: 'New Transmission', messages: added, activeLeafId: botMsg.id, lastUpdated: Date.now(), persona }, ...prev];
             }
-            if (convKey) localStorage.setItem(convKey, JSON.stringify(updated));
+            persistConversation(updated, convoId);
             return updated;
         });
 
-        const history = currentMessages;
-        const currentInput = input;
-        setInput(''); setAttachedImages([]); setIsLoading(true);
+        // A summary written for another branch does not describe this history
+        const storedSummary = conversations.find(c => c.id === convoId)?.contextSummary;
+        const contextSummary = storedSummary && (!storedSummary.lastMessageId || history[storedSummary.coveredMessages - 1]?.id === storedSummary.lastMessageId) ? storedSummary : undefined;
+        setIsLoading(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const updateBotMessage = (patch: Partial<Message>) => setConversations(prev => {
+            const up = prev.map(c => c.id === convoId ? { ...c, messages: c.messages.map(m => m.id === botMsg.id ? { ...m, ...patch } : m) } : c);
+            persistConversation(up, convoId);
+            return up;
+        });
         
         try {
-            const stream = streamAIChatResponse(currentInput, history, "English", attachedImages, currentUserEmail, userProfileNotes, chatMode, userName);
+            const stream = streamAIChatResponse(promptMsg.text, history, persona.language, imagesOf(promptMsg), currentUserEmail, userProfileNotes, persona.baseMode, userName, controller.signal, contextSummary, persona);
             let acc = "";
+            let usage: TokenUsage | undefined;
             for await (const chunk of stream) {
-                if (chunk.error) throw new Error(chunk.error);
+                if (chunk.error) throw chunk.error;
+                if (chunk.model) updateBotMessage({ model: chunk.model });
+                if (chunk.usage) usage = chunk.usage;
                 if (chunk.text) {
                     acc += chunk.text;
-                    setConversations(prev => {
-                        const up = prev.map(c => c.id === convoId ? { ...c, messages: c.messages.map(m => m.id === botMsg.id ? { ...m, text: acc } : m) } : c);
-                        if (convKey) localStorage.setItem(convKey, JSON.stringify(up));
+                    updateBotMessage({ text: acc });
+                }
+            }
+            if (controller.signal.aborted) {
+                updateBotMessage({ interrupted: true });
+            } else if (usage) {
+                updateBotMessage({ usage });
+                // Fold turns that fell out of the budget into the rolling summary for the next request
+                if (usage.droppedTurns > 0) {
+                    const covered = contextSummary?.coveredMessages || 0;
+                    const through = covered + usage.droppedTurns;
+                    // On failure the turns stay uncovered and are retried with the next reply
+                    summarizeConversation(history.slice(covered, through), contextSummary?.text).then(text => text !== null && setConversations(prev => {
+                        const up = prev.map(c => c.id === convoId ? { ...c, contextSummary: { text, coveredMessages: through, lastMessageId: history[through - 1]?.id } } : c);
+                        persistConversation(up, convoId);
                         return up;
-                    });
+                    }));
                 }
             }
-            if (conversations.find(c => c.id === convoId)?.title === 'New Transmission') {
-                generateConversationTitle(currentInput, acc).then(t => setConversations(p => p.map(c => c.id === convoId ? { ...c, title: t } : c)));
+            if (acc && conversations.find(c => c.id === convoId)?.title === 'New Transmission') {
+                generateConversationTitle(promptMsg.text, acc).then(t => setConversations(p => {
+                    const up = p.map(c => c.id === convoId ? { ...c, title: t } : c);
+                    persistConversation(up, convoId);
+                    return up;
+                }));
             }
         } catch (err: any) {
             console.error("Transmission Error:", err);
-            const errorMsg = err?.message || "SigNify logic core saturated. Check neural bandwidth.";
+            const errorMsg = describeAIError(err);
             setConversations(prev => {
                 const up = prev.map(c => c.id === convoId ? { ...c, messages: c.messages.map(m => m.id === botMsg.id ? { ...m, text: `/// SYSTEM ERROR: ${errorMsg}` } : m) } : c);
                 return up;
@@ -97,6 +208,93 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
         } finally { setIsLoading(false); }
     };
 
+    const handleSubmit = async (e?: React.FormEvent) => {
+        e?.preventDefault();
+        if ((!input.trim() && attachedImages.length === 0) || isLoading || !isOnline) return;
+        let convoId = currentConversationId || Date.now().toString();
+        if (!currentConversationId) setCurrentConversationId(convoId);
+        
+        const lastMessage = currentMessages[currentMessages.length - 1];
+        const userMsg: Message = { id: Date.now().toString(), text: input, sender: 'user', parentId: lastMessage ? lastMessage.id : null };
+        if (attachedImages.length > 0) userMsg.imageUrls = attachedImages.map(img => `data:${img.mimeType};base64,${img.base64}`);
+        setInput(''); setAttachedImages([]);
+        await runTurn(convoId, userMsg, currentMessages, true);
+    };
+
+    /** Sends an edited prompt as a new sibling of the original, keeping its images. */
+    const handleEditResend = (original: Message, text: string) => {
+        if (!currentConversationId || !text.trim() || isLoading || !isOnline) return;
+        const index = currentMessages.findIndex(m => m.id === original.id);
+        const userMsg: Message = { id: Date.now().toString(), text, sender: 'user', parentId: index > 0 ? currentMessages[index - 1].id : null };
+        if (original.imageUrls) userMsg.imageUrls = original.imageUrls;
+        setEditingMessage(null);
+        runTurn(currentConversationId, userMsg, currentMessages.slice(0, index), true);
+    };
+
+    /** Asks again for the prompt above a reply; the old reply stays as a sibling. */
+    const handleRegenerate = (reply: Message) => {
+        if (!currentConversationId || isLoading || !isOnline) return;
+        const index = currentMessages.findIndex(m => m.id === reply.id);
+        const prompt = currentMessages[index - 1];
+        if (!prompt || prompt.sender !== 'user') return;
+        runTurn(currentConversationId, prompt, currentMessages.slice(0, index - 1), false);
+    };
+
+    const switchBranch = (messageId: string) => setConversations(prev => {
+        const up = prev.map(c => c.id === currentConversationId ? { ...c, activeLeafId: newestLeaf(c.messages, messageId) } : c);
+        if (currentConversationId) persistConversation(up, currentConversationId);
+        return up;
+    });
+
+    useEffect(() => { if (linkedMessageId) setFocusMessageId(linkedMessageId); }, [linkedMessageId]);
+
+    // A result on another branch brings that branch on screen first
+    useEffect(() => {
+        if (!focusMessageId || !currentConversation) return;
+        const inConversation = currentConversation.messages.some(m => m.id === focusMessageId);
+        if (inConversation && !currentMessages.some(m => m.id === focusMessageId)) switchBranch(focusMessageId);
+    }, [focusMessageId, currentConversation]);
+
+    useMessageFocus(focusMessageId, [currentMessages]);
+
+    const historyHits = useMemo(
+        () => searchEntries(conversationEntries(conversations), historyQuery, {}, HISTORY_SEARCH_LIMIT),
+        [conversations, historyQuery]
+    );
+
+    const organizeConversations = (ids: string[], change: (c: Conversation) => Conversation) => setConversations(prev => {
+        const up = prev.map(c => ids.includes(c.id) ? change(c) : c);
+        ids.forEach(id => persistConversation(up, id));
+        return up;
+    });
+
+    /** Applies to the open conversation (stored with it) and to new ones from here on. */
+    const selectPersona = (id: string) => {
+        const persona = personaOptions.find(p => p.id === id);
+        if (!persona) return;
+        setNewChatPersonaId(id);
+        if (currentConversation) organizeConversations([currentConversation.id], c => ({ ...c, persona, organizedAt: Date.now() }));
+    };
+
+    const deleteConversations = (ids: string[]) => {
+        ids.forEach(id => deleteConversation(currentUserEmail, id));
+        setConversations(prev => prev.filter(c => !ids.includes(c.id)));
+        if (currentConversationId && ids.includes(currentConversationId)) setCurrentConversationId(null);
+    };
+
+    /** One conversation exports on its own; several go into a single file. Each uses its branch on screen. */
+    const exportConversations = (ids: string[], format: ExportFormat) => {
+        const transcripts = conversations.filter(c => ids.includes(c.id)).map(c => ({ title: c.title, origin: 'AI Chat', messages: activeBranch(c) }));
+        if (transcripts.length === 1) exportTranscript(transcripts[0], format);
+        else exportBundle({ title: `SigNify conversations (${transcripts.length})`, transcripts }, format);
+    };
+
+    const openHit = (hit: SearchHit) => {
+        setCurrentConversationId(hit.entry.target?.params.conversationId || null);
+        setFocusMessageId(hit.entry.messageId);
+        setIsHistoryOpen(false);
+    };
+
     return (
         <div className="flex h-full bg-white dark:bg-slate-950 overflow-hidden">
             <div className={`fixed inset-0 z-[100] transition-opacity duration-300 ${isHistoryOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -110,19 +308,41 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
                         <button onClick={() => { setCurrentConversationId(null); setIsHistoryOpen(false); }} className="w-full flex items-center justify-center gap-3 py-4 rounded-[20px] bg-cyan-600 text-white font-black font-commander tracking-widest active:scale-95 transition-all mb-8 shadow-xl shadow-cyan-600/20">
                             <Icons.Plus className="h-5 w-5" /> NEW COMMS
                         </button>
-                        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3">
-                            {conversations.map(c => (
-                                <button key={c.id} onClick={() => { setCurrentConversationId(c.id); setIsHistoryOpen(false); }} className={`w-full text-left px-5 py-4 rounded-[20px] transition-all group relative overflow-hidden ${currentConversationId === c.id ? 'bg-slate-100 dark:bg-slate-800 border-l-4 border-cyan-500 shadow-lg' : 'hover:bg-slate-50 dark:hover:bg-slate-800/40 border border-transparent'}`}>
-                                    <p className="font-bold text-sm truncate pr-6">{c.title}</p>
-                                    <p className="text-[9px] text-slate-400 mt-1 font-mono">{new Date(c.lastUpdated).toLocaleDateString()}</p>
-                                    <Icons.Trash onClick={(e) => { e.stopPropagation(); setConversations(prev => {
-                                        const filtered = prev.filter(p => p.id !== c.id);
-                                        if (convKey) localStorage.setItem(convKey, JSON.stringify(filtered));
-                                        return filtered;
-                                    }); }} className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-red-500 opacity-0 group-hover:opacity-100 transition-opacity" />
-                                </button>
-                            ))}
+                        <div className="relative mb-4">
+                            <Icons.Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                            <input
+                                value={historyQuery}
+                                onChange={e => setHistoryQuery(e.target.value)}
+                                placeholder="Search messages..."
+                                className="w-full pl-10 pr-4 py-3 rounded-[20px] bg-slate-100 dark:bg-slate-800 text-sm font-bold outline-none border-2 border-transparent focus:border-cyan-500"
+                            />
                         </div>
+                        {historyQuery.trim() ? (
+                            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3">
+                                {historyHits.map(hit => (
+                                    <button key={hit.entry.messageId} onClick={() => openHit(hit)} className="w-full text-left px-5 py-4 rounded-[20px] hover:bg-slate-50 dark:hover:bg-slate-800/40 border border-slate-100 dark:border-slate-800 transition-all">
+                                        <p className="font-bold text-sm truncate">{hit.entry.title}</p>
+                                        <HighlightedSnippet parts={hit.snippet} className="mt-1" />
+                                        <p className="text-[9px] text-slate-400 mt-1 font-mono">{hit.entry.sender === 'user' ? 'You' : 'SigNify'} · {new Date(hit.entry.timestamp).toLocaleDateString()}</p>
+                                    </button>
+                                ))}
+                                {historyHits.length === 0 && <p className="text-xs text-slate-400 text-center py-6">No messages match.</p>}
+                                {onSearchAll && (
+                                    <button onClick={() => onSearchAll(historyQuery.trim())} className="w-full py-3 rounded-[20px] text-[10px] font-black uppercase tracking-widest text-cyan-600 dark:text-cyan-400 hover:bg-cyan-600/10 transition-all">
+                                        Search all pages and saved messages
+                                    </button>
+                                )}
+                            </div>
+                        ) : (
+                            <ConversationList
+                                conversations={conversations}
+                                currentConversationId={currentConversationId}
+                                onOpen={id => { setCurrentConversationId(id); setIsHistoryOpen(false); }}
+                                onOrganize={organizeConversations}
+                                onDelete={deleteConversations}
+                                onExport={exportConversations}
+                            />
+                        )}
                     </div>
                 </div>
             </div>
@@ -132,12 +352,27 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
                     <button onClick={() => setIsHistoryOpen(true)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-2xl text-cyan-600 dark:text-cyan-400 active:scale-90 transition-all">
                         <Icons.Menu className="h-5 w-5" />
                     </button>
-                    <div className="flex-1 max-w-[200px]">
-                        <Dropdown options={chatModes} selected={chatMode} onSelect={setChatMode} />
+                    <div className="flex-1 max-w-[240px] flex items-center gap-2">
+                        <Dropdown
+                            options={personaOptions.map(p => p.id)}
+                            selected={activePersona.id}
+                            onSelect={selectPersona}
+                            displayValueMap={Object.fromEntries(personaOptions.map(p => [p.id, p.name]))}
+                        />
+                        <button onClick={() => setIsPersonaEditorOpen(true)} title="Edit personas" className="p-3 bg-slate-100 dark:bg-slate-800 rounded-2xl text-slate-500 active:scale-90 transition-all">
+                            <Icons.Settings className="h-5 w-5" />
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <ExportMenu
+                            onExport={format => exportTranscript({ title: currentConversation?.title || 'Conversation', origin: 'AI Chat', messages: currentMessages }, format)}
+                            disabled={currentMessages.length === 0 || isLoading}
+                            className="bg-slate-100 dark:bg-slate-800 text-slate-500"
+                        />
+                        <button onClick={() => setCurrentConversationId(null)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-2xl text-slate-500 active:scale-90 transition-all">
+                            <Icons.Plus className="h-5 w-5" />
+                        </button>
                     </div>
-                    <button onClick={() => setCurrentConversationId(null)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-2xl text-slate-500 active:scale-90 transition-all">
-                        <Icons.Plus className="h-5 w-5" />
-                    </button>
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-4 md:p-10 custom-scrollbar">
@@ -149,10 +384,49 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
                                 </div>
                                 <h2 className="text-2xl font-black font-commander uppercase tracking-tighter mt-4 dark:text-white">SigNify OS 3.2</h2>
                                 <p className="text-slate-500 text-sm mt-2 max-w-xs mx-auto font-medium">Handshake established. Systems online for {userName}.</p>
+                                {activePersona.starterPrompts.length > 0 && (
+                                    <div className="flex flex-wrap justify-center gap-2 mt-8 max-w-2xl">
+                                        {activePersona.starterPrompts.map(prompt => (
+                                            <button key={prompt} onClick={() => setInput(prompt)} dir="auto" className="px-4 py-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-sm font-bold text-slate-600 dark:text-slate-300 hover:text-cyan-500 border border-transparent hover:border-cyan-500/40 transition-all">
+                                                {prompt}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <div className="space-y-6">
-                                {currentMessages.map(m => <ChatMessage key={m.id} message={m} language="English" currentUserEmail={currentUserEmail} />)}
+                                {currentMessages.map(m => (
+                                    <div key={m.id}>
+                                        {editingMessage?.id === m.id ? (
+                                            <div className="ml-auto max-w-2xl bg-slate-100 dark:bg-slate-800 rounded-[28px] p-4 border-2 border-cyan-500">
+                                                <textarea
+                                                    value={editingMessage.text}
+                                                    onChange={e => setEditingMessage({ id: m.id, text: e.target.value })}
+                                                    rows={3}
+                                                    autoFocus
+                                                    className="w-full bg-transparent outline-none resize-none font-bold text-slate-800 dark:text-white"
+                                                />
+                                                <div className="flex justify-end gap-2 mt-2">
+                                                    <button onClick={() => setEditingMessage(null)} className="px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700">Cancel</button>
+                                                    <button onClick={() => handleEditResend(m, editingMessage.text)} disabled={!editingMessage.text.trim() || !isOnline} className="px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest bg-cyan-600 text-white disabled:opacity-50">Send</button>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <ChatMessage message={m} language={activePersona.language} currentUserEmail={currentUserEmail} />
+                                        )}
+                                        {editingMessage?.id !== m.id && currentConversation && (
+                                            <TurnControls
+                                                message={m}
+                                                siblings={siblingsOf(currentConversation.messages, m.id)}
+                                                disabled={isLoading}
+                                                onSwitch={switchBranch}
+                                                onEdit={() => setEditingMessage({ id: m.id, text: m.text })}
+                                                onRegenerate={() => handleRegenerate(m)}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
                                 {isLoading && <div className="py-10"><LoadingSpinner label="Handshake in progress..." /></div>}
                             </div>
                         )}
@@ -182,12 +456,18 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
                                     className="w-full pl-6 pr-12 py-5 bg-slate-100 dark:bg-slate-800/80 rounded-[28px] border-2 border-transparent focus:border-cyan-500 outline-none transition-all font-bold text-base resize-none max-h-40 overflow-y-auto text-slate-800 dark:text-white" 
                                     rows={1} 
                                 />
-                                <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
-                                    <button onClick={() => fileInputRef.current?.click()} className="p-2 text-slate-400 hover:text-cyan-500 transition-colors"><Icons.Paperclip className="h-5 w-5" /></button>
-                                </div>
+                                {canUpload && (
+                                    <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+                                        <button onClick={() => fileInputRef.current?.click()} className="p-2 text-slate-400 hover:text-cyan-500 transition-colors"><Icons.Paperclip className="h-5 w-5" /></button>
+                                    </div>
+                                )}
                             </div>
-                            <button onClick={() => setIsCameraOpen(true)} className="p-5 bg-slate-100 dark:bg-slate-800 rounded-3xl text-slate-500 active:scale-90 transition-all"><Icons.Camera className="h-5 w-5" /></button>
-                            <button onClick={() => handleSubmit()} disabled={isLoading || (!input.trim() && attachedImages.length === 0)} className="p-5 bg-cyan-600 text-white rounded-3xl shadow-xl shadow-cyan-600/30 active:scale-90 transition-all disabled:opacity-50"><Icons.Send className="h-5 w-5" /></button>
+                            {canUseCamera && <button onClick={() => setIsCameraOpen(true)} className="p-5 bg-slate-100 dark:bg-slate-800 rounded-3xl text-slate-500 active:scale-90 transition-all"><Icons.Camera className="h-5 w-5" /></button>}
+                            {isLoading ? (
+                                <button onClick={() => abortRef.current?.abort()} title="Stop Generation" className="p-5 bg-red-500 text-white rounded-3xl shadow-xl shadow-red-500/30 active:scale-90 transition-all"><Icons.Stop className="h-5 w-5" /></button>
+                            ) : (
+                                <button onClick={() => handleSubmit()} disabled={!input.trim() && attachedImages.length === 0} className="p-5 bg-cyan-600 text-white rounded-3xl shadow-xl shadow-cyan-600/30 active:scale-90 transition-all disabled:opacity-50"><Icons.Send className="h-5 w-5" /></button>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -200,6 +480,7 @@ export const AIChatPage: React.FC<PageProps & { userProfileNotes?: string }> = (
                     reader.readAsDataURL(file);
                 });
             }} accept="image/*" />
+            <PersonaEditor isOpen={isPersonaEditorOpen} onClose={() => setIsPersonaEditorOpen(false)} onChange={setPersonas} initialId={activePersona.id} />
             <CameraModal isOpen={isCameraOpen} onClose={() => setIsCameraOpen(false)} onCapture={(d) => setAttachedImages(p => [...p, { base64: d.split(',')[1], mimeType: 'image/jpeg', name: 'capture.jpg' }])} />
         </div>
     );
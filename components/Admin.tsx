@@ -2,7 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import { Icons } from './Icons';
 import { UserProfile } from '../types';
-import { SIKE_USERS_KEY, getSavedMessagesKey } from '../utils/appUtils';
+import { SIKE_USERS_KEY } from '../utils/appUtils';
+import { countSavedMessages } from '../services/repository';
 
 export const AdminPanelPage: React.FC = () => {
     const [stats, setStats] = useState({ totalUsers: 0, onlineNow: 0, totalSavedMessages: 0 });
@@ -14,7 +15,6 @@ export const AdminPanelPage: React.FC = () => {
         const allUsers: UserProfile[] = JSON.parse(localStorage.getItem(SIKE_USERS_KEY) || '[]');
         setUsers(allUsers);
 
-        let totalSaved = 0;
         let onlineCount = 0;
         const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
 
@@ -22,16 +22,16 @@ export const AdminPanelPage: React.FC = () => {
             if (user.lastActive && user.lastActive > fiveMinutesAgo) {
                 onlineCount++;
             }
-            const savedKey = getSavedMessagesKey(user.email);
-            const saved = JSON.parse(localStorage.getItem(savedKey) || '[]');
-            totalSaved += saved.length;
         });
 
-        setStats({
-            totalUsers: allUsers.length,
-            onlineNow: onlineCount,
-            totalSavedMessages: totalSaved
-        });
+        Promise.all(allUsers.map(user => countSavedMessages(user.email)))
+            .then(counts => counts.reduce((sum, n) => sum + n, 0))
+            .catch(() => 0)
+            .then(totalSaved => setStats({
+                totalUsers: allUsers.length,
+                onlineNow: onlineCount,
+                totalSavedMessages: totalSaved
+            }));
     }, []);
     
     const filteredUsers = users.filter(user =>
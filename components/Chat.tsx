@@ -3,8 +3,12 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { Icons } from './Icons';
 import { CopyButton, SourceBubble, Dropdown, CameraModal, LoadingSpinner } from './Shared';
 import { Message, Source, VaultFile } from '../types';
-import { chunkText, getSavedMessagesKey, createWavBlob } from '../utils/appUtils';
+import { chunkText, createWavBlob } from '../utils/appUtils';
 import { generateGeminiTTS, saveToLinguisticMemory } from '../services/geminiService';
+import { describeAIError } from '../services/aiErrors';
+import { formatUsage } from '../services/contextBuilder';
+import { MODEL_LABELS } from '../services/modelRouting';
+import { isMessageSaved, loadChatThread, loadVault, saveChatThread, saveMessage, unsaveMessage } from '../services/repository';
 
 /** Audio Decoding Utilities */
 function decode(base64: string) {
@@ -27,6 +31,29 @@ async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate:
     return buffer;
 }
 
+/** DOM id of a rendered ChatMessage, so search results can scroll to it. */
+export const messageAnchorId = (messageId: string) => `message-${messageId}`;
+
+const FOCUS_CLASSES = ['ring-2', 'ring-cyan-500', 'rounded-[32px]'];
+const FOCUS_FLASH_MS = 2500;
+
+/**
+ * Scrolls to a message once it has rendered and briefly outlines it. Runs once per
+ * id; `deps` should change when the list of messages does.
+ */
+export function useMessageFocus(messageId: string | undefined, deps: React.DependencyList) {
+    const focusedRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!messageId || focusedRef.current === messageId) return;
+        const element = document.getElementById(messageAnchorId(messageId));
+        if (!element) return;
+        focusedRef.current = messageId;
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element.classList.add(...FOCUS_CLASSES);
+        setTimeout(() => element.classList.remove(...FOCUS_CLASSES), FOCUS_FLASH_MS);
+    }, [messageId, ...deps]);
+}
+
 export const ChatMessage: React.FC<{ message: Message; language: string; currentUserEmail?: string | null; }> = ({ message, language, currentUserEmail }) => {
   const [ttsState, setTtsState] = useState<'stopped' | 'loading' | 'playing'>('stopped');
   const [activeVoice, setActiveVoice] = useState<'Kore' | 'Zephyr' | 'Fenrir' | 'Puck'>('Kore');
@@ -34,32 +61,23 @@ export const ChatMessage: React.FC<{ message: Message; language: string; current
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const isUser = message.sender === 'user';
   const [isSaved, setIsSaved] = useState(false);
-  const savedMessagesKey = getSavedMessagesKey(currentUserEmail || null);
 
   useEffect(() => {
-    if (savedMessagesKey && !isUser) {
-        try {
-            const saved = JSON.parse(localStorage.getItem(savedMessagesKey) || '[]');
-            if (saved.some((m: Message) => m.id === message.id)) setIsSaved(true);
-        } catch (e) {}
+    if (!isUser) {
+        isMessageSaved(currentUserEmail, message.id).then(setIsSaved).catch(() => {});
     }
     return () => stopTTS();
-  }, [savedMessagesKey, message.id, isUser]);
+  }, [currentUserEmail, message.id, isUser]);
   
   const handleSaveMessage = () => {
-      if (!savedMessagesKey || !message.text) return;
-      try {
-          const saved = JSON.parse(localStorage.getItem(savedMessagesKey) || '[]');
-          if (saved.some((m: Message) => m.id === message.id)) {
-              const updated = saved.filter((m: Message) => m.id !== message.id);
-              localStorage.setItem(savedMessagesKey, JSON.stringify(updated));
-              setIsSaved(false);
-          } else {
-              saved.unshift(message);
-              localStorage.setItem(savedMessagesKey, JSON.stringify(saved));
-              setIsSaved(true);
-          }
-      } catch (e) {}
+      if (!message.text) return;
+      if (isSaved) {
+          unsaveMessage(currentUserEmail, message.id);
+          setIsSaved(false);
+      } else {
+          saveMessage(currentUserEmail, message);
+          setIsSaved(true);
+      }
   };
   
   const processCitations = (text: string) => {
@@ -110,7 +128,7 @@ export const ChatMessage: React.FC<{ message: Message; language: string; current
   const isError = message.text.startsWith('/// SYSTEM ERROR:');
 
   return (
-    <div className={`flex items-start gap-4 mt-8 ${isUser ? 'justify-end' : ''}`} data-is-bot-message={!isUser}>
+    <div id={messageAnchorId(message.id)} className={`flex items-start gap-4 mt-8 ${isUser ? 'justify-end' : ''}`} data-is-bot-message={!isUser}>
       {!isUser && (
         <div className={`flex-shrink-0 w-12 h-12 flex items-center justify-center rounded-2xl bg-gradient-to-br ${isError ? 'from-red-800 to-slate-950 text-red-400' : 'from-slate-800 to-slate-950 text-cyan-400'} shadow-2xl border border-slate-700 transform -rotate-3 transition-transform hover:rotate-0`}>
           {isError ? <Icons.AlertTriangle className="h-7 w-7" /> : <Icons.Sparkles className="h-7 w-7" />}
@@ -147,6 +165,16 @@ export const ChatMessage: React.FC<{ message: Message; language: string; current
                 </div>
             )}
             <div className={`prose dark:prose-invert max-w-none text-base leading-relaxed ${langClass}`} dangerouslySetInnerHTML={{ __html: (window as any).marked.parse(displayableText) }} />
+            {!isUser && !isError && (message.model || message.usage) && (
+                <div className="mt-4 text-[9px] font-mono text-slate-400" title={message.usage ? `${message.usage.model} • ${message.usage.inputTokens} in / ${message.usage.outputTokens} out${message.usage.droppedTurns ? ` • ${message.usage.droppedTurns} earlier turns outside context` : ''}` : message.model}>
+                    {[message.model && (MODEL_LABELS[message.model] || message.model), message.usage && formatUsage(message.usage)].filter(Boolean).join(' · ')}
+                </div>
+            )}
+            {message.interrupted && (
+                <div className="flex items-center gap-1.5 mt-4 text-[9px] font-black font-commander uppercase tracking-widest text-amber-600 dark:text-amber-400">
+                    <Icons.StopCircle className="h-3 w-3" /> Transmission Interrupted
+                </div>
+            )}
          </div>
       </div>
        {isUser && (
@@ -169,7 +197,9 @@ export const ChatComponent: React.FC<{
     currentUserEmail?: string | null;
     userProfileNotes?: string;
     onSimulationCodeFound?: (code: string) => void;
-}> = ({ historyId, pageTitle, welcomeMessage, placeholder, showFilters, isOnline, aiStreamFunction, currentUserEmail, userProfileNotes, onSimulationCodeFound }) => {
+    /** Message to scroll to once the thread has loaded (from a search result). */
+    focusMessageId?: string;
+}> = ({ historyId, pageTitle, welcomeMessage, placeholder, showFilters, isOnline, aiStreamFunction, currentUserEmail, userProfileNotes, onSimulationCodeFound, focusMessageId }) => {
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -181,16 +211,13 @@ export const ChatComponent: React.FC<{
     const fileInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const recognitionRef = useRef<any>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
-    const storageKey = useMemo(() => `${historyId}_${(currentUserEmail || 'global').replace(/[@.]/g, '_')}`, [historyId, currentUserEmail]);
-    const vaultKey = useMemo(() => `signify_vault_${(currentUserEmail || 'global').replace(/[@.]/g, '_')}`, [currentUserEmail]);
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     useEffect(() => {
-        const saved = localStorage.getItem(storageKey);
-        if (saved) setMessages(JSON.parse(saved));
-        
-        const vault = localStorage.getItem(vaultKey);
-        if (vault) setVaultFiles(JSON.parse(vault).files || []);
+        loadChatThread(currentUserEmail, historyId).then(setMessages).catch(e => console.error("Failed to load chat history:", e));
+        loadVault(currentUserEmail).then(vault => setVaultFiles(vault.files)).catch(() => {});
 
         const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitRecognition;
         if (SpeechRecognition) {
@@ -205,7 +232,9 @@ export const ChatComponent: React.FC<{
             };
             recognitionRef.current.onend = () => setIsRecording(false);
         }
-    }, [storageKey, vaultKey]);
+    }, [historyId, currentUserEmail]);
+
+    useMessageFocus(focusMessageId, [messages]);
 
     const handleToggleRecording = () => {
         if (!recognitionRef.current) { alert("Speech Recognition not supported."); return; }
@@ -234,17 +263,27 @@ export const ChatComponent: React.FC<{
         const currentInput = input;
         const currentImages = [...attachedImages];
         setInput(''); setAttachedImages([]); setIsLoading(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
-            const stream = aiStreamFunction(currentInput, messages, language, currentImages, currentUserEmail, userProfileNotes);
+            const stream = aiStreamFunction(currentInput, messages, language, currentImages, currentUserEmail, userProfileNotes, controller.signal);
             let fullText = '';
             for await (const chunk of stream) {
-                if (chunk.error) throw new Error(chunk.error);
+                if (chunk.error) throw chunk.error;
+                if (chunk.model || chunk.usage) {
+                    const { model, usage } = chunk;
+                    setMessages(prev => {
+                        const updated = prev.map(m => m.id === botMsg.id ? { ...m, ...(model && { model }), ...(usage && { usage }) } : m);
+                        saveChatThread(currentUserEmail, historyId, updated);
+                        return updated;
+                    });
+                }
                 if (chunk.text) {
                     fullText += chunk.text;
                     setMessages(prev => {
                         const updated = prev.map(m => m.id === botMsg.id ? { ...m, text: fullText } : m);
-                        localStorage.setItem(storageKey, JSON.stringify(updated));
+                        saveChatThread(currentUserEmail, historyId, updated);
                         return updated;
                     });
                     if (onSimulationCodeFound) {
@@ -253,10 +292,18 @@ export const ChatComponent: React.FC<{
                     }
                 }
             }
+            if (controller.signal.aborted) {
+                setMessages(prev => {
+                    const updated = prev.map(m => m.id === botMsg.id ? { ...m, interrupted: true } : m);
+                    saveChatThread(currentUserEmail, historyId, updated);
+                    return updated;
+                });
+                return;
+            }
             saveToLinguisticMemory(fullText);
             saveToLinguisticMemory(currentInput);
         } catch (err: any) {
-            const errorMsg = err?.message || "Transmission timed out.";
+            const errorMsg = describeAIError(err, language);
             setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: `/// SYSTEM ERROR: ${errorMsg}` } : m));
         } finally { setIsLoading(false); }
     };
@@ -345,9 +392,15 @@ export const ChatComponent: React.FC<{
                             <button type="button" onClick={handleToggleRecording} title="Record Audio" className={`absolute right-3 top-1/2 -translate-y-1/2 p-2 transition-all ${isRecording ? 'text-red-500 animate-pulse scale-125' : 'text-slate-400 hover:text-cyan-500'}`}><Icons.Mic2 className="h-5 w-5" /></button>
                         </div>
                         <button type="button" onClick={() => setIsCameraOpen(true)} className="p-4 bg-slate-100 dark:bg-slate-800 rounded-2xl text-slate-500 hover:text-cyan-500"><Icons.Camera className="h-5 w-5" /></button>
-                        <button type="submit" disabled={isLoading || (!input.trim() && attachedImages.length === 0)} className="p-4 bg-cyan-600 text-white rounded-2xl shadow-xl active:scale-95 disabled:opacity-50 transition-all">
-                            <Icons.Send className="h-5 w-5" />
-                        </button>
+                        {isLoading ? (
+                            <button type="button" onClick={() => abortRef.current?.abort()} title="Stop Generation" className="p-4 bg-red-500 text-white rounded-2xl shadow-xl active:scale-95 transition-all">
+                                <Icons.Stop className="h-5 w-5" />
+                            </button>
+                        ) : (
+                            <button type="submit" disabled={!input.trim() && attachedImages.length === 0} className="p-4 bg-cyan-600 text-white rounded-2xl shadow-xl active:scale-95 disabled:opacity-50 transition-all">
+                                <Icons.Send className="h-5 w-5" />
+                            </button>
+                        )}
                     </form>
                     <input type="file" ref={fileInputRef} className="hidden" multiple onChange={handleImageUpload} accept="image/*" />
                 </div>
@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import { Icons } from './Icons';
+import { ExportMenu } from './Shared';
+import { Conversation } from '../types';
+import { ExportFormat } from '../services/conversationExport';
+import { addTags, ConversationView, conversationsInView, folderNames, organize, parseTags, tagCounts } from '../services/conversationOrganizer';
+
+const ALL_FOLDERS = '__all__';
+const UNFILED = '__unfiled__';
+const TAG_CHIP_LIMIT = 8;
+
+/**
+ * The AIChat history list: folder and tag filters, the archive, per-row pin / move /
+ * tag / archive / delete, and a selection mode for the same actions in bulk.
+ * All changes go through `onOrganize`, which saves the returned records.
+ */
+export const ConversationList: React.FC<{
+    conversations: Conversation[];
+    currentConversationId: string | null;
+    onOpen: (id: string) => void;
+    onOrganize: (ids: string[], change: (c: Conversation) => Conversation) => void;
+    onDelete: (ids: string[]) => void;
+    onExport: (ids: string[], format: ExportFormat) => void;
+}> = ({ conversations, currentConversationId, onOpen, onOrganize, onDelete, onExport }) => {
+    const [view, setView] = useState<ConversationView>({ archived: false });
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+    const folders = useMemo(() => folderNames(conversations), [conversations]);
+    const tags = useMemo(() => tagCounts(conversations.filter(c => !!c.archived === view.archived)), [conversations, view.archived]);
+    const visible = useMemo(() => conversationsInView(conversations, view), [conversations, view]);
+    const archivedCount = conversations.filter(c => c.archived).length;
+    const selected = visible.filter(c => selectedIds.has(c.id)).map(c => c.id);
+
+    const folderValue = view.folder === undefined ? ALL_FOLDERS : view.folder === null ? UNFILED : view.folder;
+    const handleFolderView = (value: string) => setView(v => ({ ...v, folder: value === ALL_FOLDERS ? undefined : value === UNFILED ? null : value }));
+
+    const toggleSelected = (id: string) => setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const stopSelecting = () => {
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+    };
+
+    const askFolder = (current?: string): string | null => {
+        const hint = folders.length ? ` Existing: ${folders.join(', ')}.` : '';
+        return window.prompt(`Move to folder (leave empty for no folder).${hint}`, current || '');
+    };
+
+    const moveTo = (ids: string[], current?: string) => {
+        const folder = askFolder(current);
+        if (folder !== null) onOrganize(ids, c => organize(c, { folder }));
+    };
+
+    const editTags = (c: Conversation) => {
+        const input = window.prompt("Tags, separated by commas:", (c.tags || []).join(', '));
+        if (input !== null) onOrganize([c.id], conv => organize(conv, { tags: parseTags(input) }));
+    };
+
+    const tagSelected = () => {
+        const input = window.prompt("Add tags to the selected conversations, separated by commas:");
+        if (input) onOrganize(selected, c => addTags(c, parseTags(input)));
+    };
+
+    const deleteIds = (ids: string[]) => {
+        const prompt = ids.length === 1 ? "Delete this conversation? This cannot be undone." : `Delete ${ids.length} conversations? This cannot be undone.`;
+        if (!window.confirm(prompt)) return;
+        onDelete(ids);
+        setSelectedIds(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))));
+    };
+
+    const actionClass = "p-1.5 rounded-lg text-slate-400 hover:text-cyan-500 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors";
+    const bulkClass = "flex items-center gap-1 px-2.5 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:text-cyan-500 disabled:opacity-40";
+
+    return (
+        <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex items-center gap-2 mb-3">
+                <select
+                    value={folderValue}
+                    onChange={e => handleFolderView(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-xs font-bold outline-none"
+                >
+                    <option value={ALL_FOLDERS}>All folders</option>
+                    <option value={UNFILED}>No folder</option>
+                    {folders.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+                <button
+                    onClick={() => setView(v => ({ ...v, archived: !v.archived, tag: undefined }))}
+                    title={view.archived ? "Back to active conversations" : "Show archived"}
+                    className={`flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-bold transition-colors ${view.archived ? 'bg-cyan-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+                >
+                    <Icons.Archive className="h-4 w-4" /> {archivedCount}
+                </button>
+                <button
+                    onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+                    title="Select conversations"
+                    className={`px-3 py-2 rounded-xl text-xs font-bold transition-colors ${isSelecting ? 'bg-cyan-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+                >
+                    <Icons.Check className="h-4 w-4" />
+                </button>
+            </div>
+
+            {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-3">
+                    {tags.slice(0, TAG_CHIP_LIMIT).map(({ tag, count }) => (
+                        <button
+                            key={tag}
+                            onClick={() => setView(v => ({ ...v, tag: v.tag === tag ? undefined : tag }))}
+                            className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-colors ${view.tag === tag ? 'bg-cyan-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-cyan-500'}`}
+                        >
+                            #{tag} <span className="opacity-60">{count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {isSelecting && (
+                <div className="mb-3 p-3 rounded-2xl border border-cyan-500/30 bg-cyan-600/5">
+                    <div className="flex items-center justify-between mb-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                        <span>{selected.length} selected</span>
+                        <button onClick={() => setSelectedIds(new Set(selected.length === visible.length ? [] : visible.map(c => c.id)))} className="text-cyan-600 dark:text-cyan-400">
+                            {selected.length === visible.length && visible.length > 0 ? 'Clear' : 'Select all'}
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        <button onClick={() => moveTo(selected)} disabled={!selected.length} className={bulkClass}><Icons.Folder className="h-3 w-3" /> Move</button>
+                        <button onClick={tagSelected} disabled={!selected.length} className={bulkClass}><Icons.Tag className="h-3 w-3" /> Tag</button>
+                        <button onClick={() => onOrganize(selected, c => organize(c, { archived: !view.archived }))} disabled={!selected.length} className={bulkClass}>
+                            <Icons.Archive className="h-3 w-3" /> {view.archived ? 'Restore' : 'Archive'}
+                        </button>
+                        <ExportMenu onExport={format => onExport(selected, format)} disabled={!selected.length} title="Export selected" className="!p-2 !rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300" />
+                        <button onClick={() => deleteIds(selected)} disabled={!selected.length} className={`${bulkClass} hover:!text-red-500`}><Icons.Trash className="h-3 w-3" /> Delete</button>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-3">
+                {visible.map(c => (
+                    <div
+                        key={c.id}
+                        onClick={() => isSelecting ? toggleSelected(c.id) : onOpen(c.id)}
+                        className={`w-full text-left px-5 py-4 rounded-[20px] transition-all group relative overflow-hidden cursor-pointer ${currentConversationId === c.id ? 'bg-slate-100 dark:bg-slate-800 border-l-4 border-cyan-500 shadow-lg' : 'hover:bg-slate-50 dark:hover:bg-slate-800/40 border border-transparent'}`}
+                    >
+                        <div className="flex items-center gap-2">
+                            {isSelecting && (
+                                <span className={`flex-shrink-0 h-4 w-4 rounded border-2 flex items-center justify-center ${selectedIds.has(c.id) ? 'bg-cyan-600 border-cyan-600 text-white' : 'border-slate-300 dark:border-slate-600'}`}>
+                                    {selectedIds.has(c.id) && <Icons.Check className="h-3 w-3" />}
+                                </span>
+                            )}
+                            {c.pinned && <Icons.Pin className="flex-shrink-0 h-3 w-3 text-cyan-500" />}
+                            <p className="font-bold text-sm truncate">{c.title}</p>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1.5 mt-1 text-[9px] text-slate-400 font-mono">
+                            <span>{new Date(c.lastUpdated).toLocaleDateString()}</span>
+                            {c.folder && <span className="flex items-center gap-0.5"><Icons.Folder className="h-2.5 w-2.5" />{c.folder}</span>}
+                            {(c.tags || []).map(t => <span key={t} className="text-cyan-600 dark:text-cyan-400">#{t}</span>)}
+                        </div>
+                        {!isSelecting && (
+                            <div onClick={e => e.stopPropagation()} className="absolute right-2 top-2 flex gap-0.5 bg-white/90 dark:bg-slate-900/90 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => onOrganize([c.id], conv => organize(conv, { pinned: !conv.pinned }))} title={c.pinned ? "Unpin" : "Pin"} className={actionClass}><Icons.Pin className="h-3.5 w-3.5" /></button>
+                                <button onClick={() => moveTo([c.id], c.folder)} title="Move to folder" className={actionClass}><Icons.Folder className="h-3.5 w-3.5" /></button>
+                                <button onClick={() => editTags(c)} title="Edit tags" className={actionClass}><Icons.Tag className="h-3.5 w-3.5" /></button>
+                                <button onClick={() => onOrganize([c.id], conv => organize(conv, { archived: !conv.archived }))} title={c.archived ? "Restore" : "Archive"} className={actionClass}><Icons.Archive className="h-3.5 w-3.5" /></button>
+                                <button onClick={() => deleteIds([c.id])} title="Delete" className={`${actionClass} hover:!text-red-500`}><Icons.Trash className="h-3.5 w-3.5" /></button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {visible.length === 0 && (
+                    <p className="text-xs text-slate-400 text-center py-6">{view.archived ? "No archived conversations." : "No conversations here yet."}</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -3,16 +3,16 @@ import React, { useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Icons } from './Icons';
 import { PageProps, ExamReport } from '../types';
-import { getExamHistoryKey } from '../utils/appUtils';
+import { loadExamHistory } from '../services/repository';
 
-export const DashboardPage: React.FC<PageProps & { setPage: (page: string) => void }> = ({ isOnline, setPage }) => {
+export const DashboardPage: React.FC<PageProps & { setPage: (page: string, params?: Record<string, string>) => void }> = ({ isOnline, setPage }) => {
     const [rollNo, setRollNo] = useState('');
     const [history, setHistory] = useState<ExamReport[]>([]);
     const [error, setError] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [weakestSubject, setWeakestSubject] = useState<string | null>(null);
 
-    const loadHistory = (e: React.FormEvent) => {
+    const loadHistory = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!rollNo.trim()) {
             setError('Please enter a valid Roll Number.');
@@ -21,8 +21,7 @@ export const DashboardPage: React.FC<PageProps & { setPage: (page: string) => vo
         setIsLoading(true);
         setError('');
         try {
-            const savedHistory = localStorage.getItem(getExamHistoryKey(rollNo));
-            const parsedHistory = savedHistory ? JSON.parse(savedHistory) : [];
+            const parsedHistory = await loadExamHistory(rollNo);
             setHistory(parsedHistory);
 
             if (parsedHistory.length > 0) {
@@ -125,7 +124,7 @@ export const DashboardPage: React.FC<PageProps & { setPage: (page: string) => vo
                             <h2 className="text-xl font-bold mb-4">Exam History</h2>
                             <div className="space-y-3">
                                 {history.map(report => (
-                                    <div key={report.id} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-700/50 flex justify-between items-center">
+                                    <button key={report.id} onClick={() => setPage('exam', { reportId: report.id })} className="w-full text-left p-3 rounded-lg bg-slate-100 dark:bg-slate-700/50 hover:bg-slate-200 dark:hover:bg-slate-700 flex justify-between items-center">
                                         <div>
                                             <p className="font-semibold">{report.examSetup.subject} - {report.examSetup.examType}</p>
                                             <p className="text-xs text-slate-500 dark:text-slate-400">{new Date(parseInt(report.id)).toLocaleString()}</p>
@@ -134,7 +133,7 @@ export const DashboardPage: React.FC<PageProps & { setPage: (page: string) => vo
                                              <p className="font-bold">{report.results.percentage.toFixed(1)}% ({report.results.grade})</p>
                                              <p className="text-xs text-slate-500 dark:text-slate-400">{report.results.marksObtained}/{report.results.totalMarks} Marks</p>
                                         </div>
-                                    </div>
+                                    </button>
                                 ))}
                             </div>
                         </div>
@@ -3,35 +3,52 @@ import { Icons } from './Icons';
 import { Dropdown, CopyButton, LoadingSpinner } from './Shared';
 import { PageProps, StudentProfile, Question, UserAnswer, ExamReport, InProgressExamSession } from '../types';
 import { generateExamQuestions, evaluateExamAnswers } from '../services/geminiService';
-import { getInProgressExamKey, getExamHistoryKey } from '../utils/appUtils';
+import { describeAIError } from '../services/aiErrors';
+import { addExamReport, clearExamSession, loadExamReport, loadExamSession, saveExamSession } from '../services/repository';
 
-export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
+/** `reportId` comes from the `#/exam/:reportId` route; the page reports the open report back so the URL follows it. */
+export const ExamPage: React.FC<PageProps & { reportId?: string; onReportChange?: (reportId: string | null) => void }> = ({ isOnline, currentUserEmail, reportId, onReportChange }) => {
   const [studentProfile, setStudentProfile] = useState<StudentProfile | null>(null);
-  const [examState, setExamState] = useState<'setup' | 'taking' | 'report'>('setup');
+  const [examState, setExamState] = useState<'setup' | 'taking' | 'report'>(reportId ? 'report' : 'setup');
   const [examSetup, setExamSetup] =useState({ subject: 'Physics', chapter: 'Chapter 10: Simple Harmonic Motion and Waves', examType: 'MCQs', language: ['English'], duration: 30 });
   
   const [questions, setQuestions] = useState<Question[]>([]);
   const [userAnswers, setUserAnswers] = useState<UserAnswer[]>([]);
   const [report, setReport] = useState<ExamReport | null>(null);
 
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(!!reportId);
   const [error, setError] = useState<string | null>(null);
 
   const [inProgressExam, setInProgressExam] = useState<InProgressExamSession | null>(null);
 
   useEffect(() => {
       if (!studentProfile) return;
-      try {
-        const savedSession = localStorage.getItem(getInProgressExamKey(studentProfile.rollNo));
-        if (savedSession) {
-          setInProgressExam(JSON.parse(savedSession));
-        }
-      } catch (e) {
+      loadExamSession(studentProfile.rollNo).then(setInProgressExam).catch(e => {
         console.error("Failed to load in-progress exam:", e);
-        if(studentProfile) localStorage.removeItem(getInProgressExamKey(studentProfile.rollNo));
-      }
+        clearExamSession(studentProfile.rollNo);
+      });
   }, [studentProfile]);
 
+  // A linked report opens on its own, without a student profile; leaving the link closes it
+  useEffect(() => {
+      if (!reportId) {
+          if (examState === 'report' && report) {
+              setExamState('setup');
+              setReport(null);
+              setError(null);
+          }
+          return;
+      }
+      if (report?.id === reportId) return;
+      setExamState('report');
+      setError(null);
+      setIsLoading(true);
+      loadExamReport(reportId)
+          .then(setReport)
+          .catch(e => console.error("Failed to load exam report:", e))
+          .finally(() => setIsLoading(false));
+  }, [reportId]);
+
   const startExam = async (setupDetails: any) => {
     if (!studentProfile) return;
     setExamSetup(setupDetails);
@@ -53,7 +70,7 @@ export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
         studentInfo: studentProfile,
         examSetup: setupDetails,
       };
-      localStorage.setItem(getInProgressExamKey(studentProfile.rollNo), JSON.stringify(session));
+      saveExamSession(studentProfile.rollNo, session);
 
       setExamState('taking');
     } catch (err) {
@@ -71,20 +88,13 @@ export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
     setError(null);
     setExamState('report');
     try {
-        localStorage.removeItem(getInProgressExamKey(studentProfile.rollNo));
+        clearExamSession(studentProfile.rollNo);
         const generatedReport = await evaluateExamAnswers(questions, finalAnswers, studentProfile, examSetup);
         setReport(generatedReport);
-        try {
-            const EXAM_HISTORY_KEY = getExamHistoryKey(studentProfile.rollNo);
-            const savedHistory = localStorage.getItem(EXAM_HISTORY_KEY);
-            const history = savedHistory ? JSON.parse(savedHistory) : [];
-            history.unshift(generatedReport);
-            localStorage.setItem(EXAM_HISTORY_KEY, JSON.stringify(history.slice(0, 50)));
-        } catch (e) {
-            console.error("Failed to save exam history:", e);
-        }
+        onReportChange?.(generatedReport.id);
+        addExamReport(studentProfile.rollNo, generatedReport, currentUserEmail).catch(e => console.error("Failed to save exam history:", e));
     } catch (err) {
-        setError(err instanceof Error ? err.message : "An unknown error occurred while evaluating the exam.");
+        setError(describeAIError(err));
     } finally {
       setIsLoading(false);
     }
@@ -97,7 +107,8 @@ export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
       setReport(null);
       setError(null);
       setIsLoading(false);
-      if (studentProfile) localStorage.removeItem(getInProgressExamKey(studentProfile.rollNo));
+      if (studentProfile) clearExamSession(studentProfile.rollNo);
+      onReportChange?.(null);
   };
 
   const resumeCurrentExam = () => {
@@ -111,11 +122,15 @@ export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
 
   const startNewExam = () => {
     if (window.confirm("Are you sure? Your previous exam progress will be lost.") && studentProfile) {
-      localStorage.removeItem(getInProgressExamKey(studentProfile.rollNo));
+      clearExamSession(studentProfile.rollNo);
       setInProgressExam(null);
     }
   };
 
+  if (examState === 'report') {
+    return <ExamReportComponent report={report} isLoading={isLoading} error={error} onReset={resetExam} />;
+  }
+
   if (!studentProfile) {
     return <ProfileCreationForExam onProfileCreated={setStudentProfile} />;
   }
@@ -125,11 +140,7 @@ export const ExamPage: React.FC<PageProps> = ({ isOnline }) => {
   }
   
   if (examState === 'taking') {
-    return <ExamTakingComponent questions={questions} duration={examSetup.duration} onSubmit={submitExam} initialAnswers={userAnswers} language={examSetup.language[0]} initialTimeLeft={inProgressExam?.timeLeft} studentInfo={studentProfile} examSetup={examSetup} inProgressKey={getInProgressExamKey(studentProfile.rollNo)} />;
-  }
-  
-  if (examState === 'report') {
-    return <ExamReportComponent report={report} isLoading={isLoading} error={error} onReset={resetExam} />;
+    return <ExamTakingComponent questions={questions} duration={examSetup.duration} onSubmit={submitExam} initialAnswers={userAnswers} language={examSetup.language[0]} initialTimeLeft={inProgressExam?.timeLeft} studentInfo={studentProfile} examSetup={examSetup} />;
   }
 
   return null;
@@ -308,8 +319,7 @@ const ExamTakingComponent: React.FC<{
     initialTimeLeft?: number;
     studentInfo: StudentProfile;
     examSetup: any;
-    inProgressKey: string;
-}> = ({ questions, duration, onSubmit, initialAnswers, language, initialTimeLeft, studentInfo, examSetup, inProgressKey }) => {
+}> = ({ questions, duration, onSubmit, initialAnswers, language, initialTimeLeft, studentInfo, examSetup }) => {
     const [currentAnswers, setCurrentAnswers] = useState<UserAnswer[]>(initialAnswers);
     const [timeLeft, setTimeLeft] = useState(initialTimeLeft || duration * 60);
     const timerRef = useRef<number | null>(null);
@@ -346,8 +356,8 @@ const ExamTakingComponent: React.FC<{
         const session: InProgressExamSession = {
             questions, userAnswers: currentAnswers, timeLeft, studentInfo, examSetup
         };
-        localStorage.setItem(inProgressKey, JSON.stringify(session));
-    }, [timeLeft, currentAnswers, questions, studentInfo, examSetup, inProgressKey]);
+        saveExamSession(studentInfo.rollNo, session);
+    }, [timeLeft, currentAnswers, questions, studentInfo, examSetup]);
 
     const handleAnswerChange = (questionIndex: number, answer: string) => {
         setCurrentAnswers(prev => {
@@ -59,6 +59,14 @@ export const Header: React.FC<HeaderProps> = ({ page, setPage, theme, setTheme,
                 </button>
              )}
 
+              <button
+                  onClick={() => setPage('search')}
+                  className={`p-3 rounded-2xl transition-all hover:scale-105 active:scale-95 ${page === 'search' ? 'bg-cyan-600/10 text-cyan-600 dark:bg-cyan-600/20 dark:text-cyan-400' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+                  title="Search"
+              >
+                  <Icons.Search className="h-5 w-5" />
+              </button>
+
               <button
                   onClick={toggleTheme}
                   className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-500 transition-all hover:scale-105 active:scale-95"
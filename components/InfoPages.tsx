@@ -1,20 +1,30 @@
 import React from 'react';
 import { Icons } from './Icons';
-import { SubscriptionTier } from '../types';
-import { checkFeatureAccess } from '../utils/appUtils';
+import { SubscriptionTier, UserRole } from '../types';
+import { checkFeatureAccess, pageUpgradeMessage, requestUpgrade } from '../services/entitlements';
+import { can, canOpenPage } from '../services/permissions';
+
+/** Menu links that only some roles see; hidden links are also refused by App.renderPage. */
+const ROLE_LINKS: { id: string; label: string; icon: React.ElementType }[] = [
+    { id: 'exam', label: 'Exam Center', icon: Icons.Exam },
+    { id: 'examDashboard', label: 'Student Results', icon: Icons.LayoutDashboard },
+    { id: 'adminPanel', label: 'Admin Panel', icon: Icons.BrainCircuit },
+    { id: 'userManagement', label: 'User Management', icon: Icons.Users }
+];
 
 export const MainMenuPage: React.FC<{ 
     setPage: (page: string) => void; 
-    isCommander: boolean; 
+    role: UserRole | null;
     currentTier: SubscriptionTier;
-    onUpgrade: () => void;
-}> = ({ setPage, isCommander, currentTier, onUpgrade }) => {
+}> = ({ setPage, role, currentTier }) => {
     
     const handleFeatureClick = (id: string) => {
-        if (checkFeatureAccess(id, currentTier) || isCommander) {
+        if (!canOpenPage(role, id)) {
+            alert(role ? "Your role does not have access to this module." : "Please sign in to open this module.");
+        } else if (checkFeatureAccess(id, currentTier) || can(role, 'features.unlimited')) {
             setPage(id);
         } else {
-            onUpgrade();
+            requestUpgrade(pageUpgradeMessage(id));
         }
     };
 
@@ -99,6 +109,22 @@ export const MainMenuPage: React.FC<{
 
                 {/* Secondary Links */}
                 <div className="grid grid-cols-1 gap-3">
+                    {ROLE_LINKS.filter(link => canOpenPage(role, link.id)).map(({ id, label, icon: Icon }) => (
+                        <button key={id} onClick={() => handleFeatureClick(id)} className="flex items-center justify-between p-5 bg-slate-100 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-700 active:bg-slate-200 transition-colors">
+                            <div className="flex items-center gap-3">
+                                <Icon className="h-5 w-5 text-slate-500" />
+                                <span className="text-sm font-bold text-slate-700 dark:text-slate-300">{label}</span>
+                            </div>
+                            <Icons.ArrowRight className="h-4 w-4 text-slate-400" />
+                        </button>
+                    ))}
+                    <button onClick={() => setPage('modelSettings')} className="flex items-center justify-between p-5 bg-slate-100 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-700 active:bg-slate-200 transition-colors">
+                        <div className="flex items-center gap-3">
+                            <Icons.Settings className="h-5 w-5 text-slate-500" />
+                            <span className="text-sm font-bold text-slate-700 dark:text-slate-300">Model Routing</span>
+                        </div>
+                        <Icons.ArrowRight className="h-4 w-4 text-slate-400" />
+                    </button>
                     <button onClick={() => setPage('aboutContact')} className="flex items-center justify-between p-5 bg-slate-100 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-700 active:bg-slate-200 transition-colors">
                         <div className="flex items-center gap-3">
                             <Icons.Info className="h-5 w-5 text-slate-500" />
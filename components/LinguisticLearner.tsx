@@ -1,29 +1,26 @@
 
 import React, { useState, useEffect } from 'react';
 import { Icons } from './Icons';
-import { PageProps } from '../types';
+import { PageProps, LinguisticRule } from '../types';
 import { saveExplicitLinguisticRule } from '../services/geminiService';
+import { loadLinguisticRules, loadLinguisticTraining, saveLinguisticRules } from '../services/repository';
 
 export const LinguisticLearnerPage: React.FC<PageProps> = () => {
-    const [rules, setRules] = useState<any[]>([]);
+    const [rules, setRules] = useState<LinguisticRule[]>([]);
     const [trigger, setTrigger] = useState('');
     const [response, setResponse] = useState('');
     const [autoCount, setAutoCount] = useState(0);
 
     useEffect(() => {
-        const savedRules = localStorage.getItem('sike_explicit_linguistic_rules') || '[]';
-        setRules(JSON.parse(savedRules));
-        
-        const auto = localStorage.getItem('sike_linguistic_training_sindhi') || '[]';
-        setAutoCount(JSON.parse(auto).length);
+        loadLinguisticRules().then(setRules).catch(() => {});
+        loadLinguisticTraining().then(entries => setAutoCount(entries.length)).catch(() => {});
     }, []);
 
-    const handleAddRule = (e: React.FormEvent) => {
+    const handleAddRule = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!trigger.trim() || !response.trim()) return;
-        saveExplicitLinguisticRule(trigger, response);
-        const updated = [...rules, { id: Date.now().toString(), trigger, response }];
-        setRules(updated);
+        const rule = await saveExplicitLinguisticRule(trigger, response);
+        setRules(prev => [...prev, rule]);
         setTrigger('');
         setResponse('');
     };
@@ -31,7 +28,7 @@ export const LinguisticLearnerPage: React.FC<PageProps> = () => {
     const deleteRule = (id: string) => {
         const filtered = rules.filter(r => r.id !== id);
         setRules(filtered);
-        localStorage.setItem('sike_explicit_linguistic_rules', JSON.stringify(filtered));
+        saveLinguisticRules(filtered);
     };
 
     return (
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { Dropdown } from './Shared';
+import { AIFeature, CHAT_MODES, DEFAULT_MODEL_ROUTING, FEATURE_LABELS, MODEL_LABELS, ModelRoutingConfig, getModelRouting, modelsForFeature, saveModelRouting, TEXT_MODELS } from '../services/modelRouting';
+
+/** Dropdown sentinel for chat modes that follow the Neural Chat default. */
+const INHERIT = 'inherit';
+
+export const ModelSettingsPage: React.FC = () => {
+    const [config, setConfig] = useState<ModelRoutingConfig>(getModelRouting);
+    const [saved, setSaved] = useState(false);
+
+    const update = (next: ModelRoutingConfig) => {
+        setConfig(next);
+        setSaved(false);
+    };
+
+    const setFeatureModel = (feature: AIFeature, model: string) =>
+        update({ ...config, features: { ...config.features, [feature]: model } });
+
+    const setChatModeModel = (mode: string, model: string) => {
+        const chatModes = { ...config.chatModes };
+        if (model === INHERIT) delete chatModes[mode]; else chatModes[mode] = model;
+        update({ ...config, chatModes });
+    };
+
+    const handleSave = () => {
+        saveModelRouting(config);
+        setSaved(true);
+    };
+
+    const handleReset = () => {
+        if (!window.confirm("Restore the default model for every feature?")) return;
+        saveModelRouting(DEFAULT_MODEL_ROUTING);
+        setConfig(DEFAULT_MODEL_ROUTING);
+        setSaved(true);
+    };
+
+    const features = Object.keys(FEATURE_LABELS) as AIFeature[];
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-6 bg-slate-50 dark:bg-slate-950">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <div className="bg-white dark:bg-slate-900 p-8 rounded-[40px] shadow-xl border border-slate-100 dark:border-slate-800">
+                    <h1 className="text-2xl font-black font-commander uppercase tracking-tighter text-cyan-600 dark:text-cyan-400 mb-2 flex items-center gap-3">
+                        <Icons.Cpu className="h-6 w-6" /> Model Routing
+                    </h1>
+                    <p className="text-slate-600 dark:text-slate-300 leading-relaxed text-sm">
+                        Choose which model powers each module. If a model is not found or your API key lacks permission for it, SigNify falls back to the Flash Core automatically.
+                    </p>
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-8 rounded-[40px] shadow-xl border border-slate-100 dark:border-slate-800 space-y-5">
+                    <h2 className="text-[10px] font-black font-commander uppercase tracking-[0.3em] text-slate-400">Modules</h2>
+                    {features.map(feature => (
+                        <Dropdown
+                            key={feature}
+                            label={FEATURE_LABELS[feature]}
+                            options={modelsForFeature(feature)}
+                            selected={config.features[feature]}
+                            onSelect={(model: string) => setFeatureModel(feature, model)}
+                            displayValueMap={MODEL_LABELS}
+                        />
+                    ))}
+                </div>
+
+                <div className="bg-white dark:bg-slate-900 p-8 rounded-[40px] shadow-xl border border-slate-100 dark:border-slate-800 space-y-5">
+                    <h2 className="text-[10px] font-black font-commander uppercase tracking-[0.3em] text-slate-400">Neural Chat Modes</h2>
+                    {CHAT_MODES.map(mode => (
+                        <Dropdown
+                            key={mode}
+                            label={`${mode} Mode`}
+                            options={[INHERIT, ...TEXT_MODELS]}
+                            selected={config.chatModes[mode] || INHERIT}
+                            onSelect={(model: string) => setChatModeModel(mode, model)}
+                            displayValueMap={{ ...MODEL_LABELS, [INHERIT]: 'Use Neural Chat Default' }}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex gap-3">
+                    <button onClick={handleReset} className="flex-1 py-4 rounded-2xl border-2 border-slate-200 dark:border-slate-700 text-xs font-black font-commander uppercase tracking-widest text-slate-500 active:scale-95 transition-all">
+                        Reset Defaults
+                    </button>
+                    <button onClick={handleSave} className="flex-1 py-4 rounded-2xl bg-cyan-600 text-white text-xs font-black font-commander uppercase tracking-widest shadow-xl active:scale-95 transition-all flex items-center justify-center gap-2">
+                        {saved ? <><Icons.Check className="h-4 w-4" /> Saved</> : 'Save Routing'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
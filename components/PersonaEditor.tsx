@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { Dropdown } from './Shared';
+import { Persona } from '../types';
+import { CHAT_MODES } from '../services/modelRouting';
+import {
+    allPersonas, draftPersona, importPersonas, loadCustomPersonas, MAX_STARTER_PROMPTS, parsePersonaFile, PERSONA_ATTACHMENT_LABELS,
+    PERSONA_ATTACHMENTS, PERSONA_LANGUAGES, personasToJson, saveCustomPersonas, validatePersona
+} from '../services/personas';
+
+/**
+ * PERSONA EDITOR
+ * Lists the built-in and custom personas. Built-ins are read-only but can be
+ * duplicated; custom ones are edited as a draft and saved through
+ * validatePersona. Import takes any file written by Export (or a bare persona).
+ * `onChange` receives the full list after every save, delete or import.
+ */
+export const PersonaEditor: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onChange: (personas: Persona[]) => void;
+    initialId?: string;
+}> = ({ isOpen, onClose, onChange, initialId }) => {
+    const [personas, setPersonas] = useState<Persona[]>(allPersonas);
+    const [draft, setDraft] = useState<Persona | null>(null);
+    const [selectedId, setSelectedId] = useState(initialId);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    // Sync may have changed the stored personas while the editor was closed
+    useEffect(() => {
+        if (!isOpen) return;
+        setPersonas(allPersonas());
+        setSelectedId(initialId);
+        setDraft(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const selected = draft || personas.find(p => p.id === selectedId) || personas[0];
+    const isCustomDraft = !!draft && !draft.builtIn;
+    const saved = draft && personas.find(p => p.id === draft.id);
+
+    const publish = (custom: Persona[]) => {
+        const next = [...allPersonas().filter(p => p.builtIn), ...custom];
+        setPersonas(next);
+        onChange(next);
+    };
+
+    const select = (persona: Persona) => {
+        setSelectedId(persona.id);
+        setDraft(persona.builtIn ? null : { ...persona, starterPrompts: [...persona.starterPrompts] });
+    };
+
+    const startDraft = (from?: Persona) => {
+        const created = draftPersona(from);
+        setSelectedId(created.id);
+        setDraft(created);
+    };
+
+    const update = (patch: Partial<Persona>) => setDraft(d => d ? { ...d, ...patch } : d);
+
+    const handleSave = () => {
+        if (!draft) return;
+        const result = validatePersona(draft);
+        if (typeof result === 'string') {
+            alert(result);
+            return;
+        }
+        const custom = loadCustomPersonas();
+        const next = custom.some(p => p.id === result.id) ? custom.map(p => p.id === result.id ? result : p) : [...custom, result];
+        saveCustomPersonas(next);
+        publish(next);
+        setDraft(result);
+    };
+
+    const handleDelete = () => {
+        if (!draft || !window.confirm(`Delete the persona "${draft.name}"? Conversations that use it keep their copy.`)) return;
+        const next = loadCustomPersonas().filter(p => p.id !== draft.id);
+        saveCustomPersonas(next);
+        publish(next);
+        setDraft(null);
+        setSelectedId(undefined);
+    };
+
+    const handleExport = (list: Persona[]) => {
+        const blob = new Blob([personasToJson(list)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = list.length === 1
+            ? `signify_persona_${list[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.json`
+            : `signify_personas_${new Date().toISOString().slice(0, 10)}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            let parsed;
+            try {
+                parsed = parsePersonaFile(event.target?.result as string);
+            } catch (err) {
+                alert("Import failed. The file is not valid JSON.");
+                console.error(err);
+                return;
+            }
+            const { personas: imported, errors } = parsed;
+            if (imported.length) {
+                publish(importPersonas(imported));
+                select(imported[0]);
+            }
+            const skipped = errors.length ? `\nSkipped ${errors.length}:\n${errors.join('\n')}` : '';
+            alert(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}.${skipped}`);
+        };
+        reader.readAsText(file);
+    };
+
+    const customCount = personas.filter(p => !p.builtIn).length;
+    const fieldClass = "w-full px-4 py-3 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all text-sm font-medium disabled:opacity-60";
+    const labelClass = "block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1.5";
+    const toolClass = "flex items-center gap-1.5 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:text-cyan-500 disabled:opacity-40";
+
+    return (
+        <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md">
+            <div className="w-full max-w-4xl max-h-[95vh] flex flex-col bg-white dark:bg-slate-900 rounded-[40px] shadow-2xl border-4 border-cyan-500 p-6 md:p-8 transform animate-in zoom-in-95 duration-200">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-black font-commander uppercase tracking-tighter text-slate-900 dark:text-white">Personas</h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><Icons.X className="h-6 w-6" /></button>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    <button onClick={() => startDraft()} className={toolClass}><Icons.Plus className="h-3.5 w-3.5" /> New</button>
+                    <button onClick={() => importRef.current?.click()} className={toolClass}><Icons.Upload className="h-3.5 w-3.5" /> Import JSON</button>
+                    <button onClick={() => handleExport(personas.filter(p => !p.builtIn))} disabled={!customCount} className={toolClass}><Icons.Download className="h-3.5 w-3.5" /> Export all ({customCount})</button>
+                </div>
+
+                <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-6">
+                    <div className="md:w-56 flex-shrink-0 overflow-y-auto custom-scrollbar space-y-1.5 max-h-40 md:max-h-none">
+                        {personas.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => select(p)}
+                                className={`w-full text-left px-4 py-3 rounded-2xl text-sm font-bold transition-colors ${selected?.id === p.id ? 'bg-cyan-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-300'}`}
+                            >
+                                <span className="block truncate">{p.name}</span>
+                                <span className="block text-[9px] font-mono uppercase opacity-60">{p.builtIn ? 'Built-in' : `Custom · ${p.baseMode}`}</span>
+                            </button>
+                        ))}
+                        {draft && !saved && (
+                            <div className="px-4 py-3 rounded-2xl text-sm font-bold bg-cyan-600 text-white truncate">{draft.name || 'Unsaved'} <span className="text-[9px] font-mono uppercase opacity-60">unsaved</span></div>
+                        )}
+                    </div>
+
+                    {selected && (
+                        <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar space-y-4 pr-1">
+                            {!isCustomDraft && (
+                                <div className="p-4 rounded-2xl bg-cyan-600/5 border border-cyan-500/20 text-xs font-bold text-slate-600 dark:text-slate-300 flex items-center justify-between gap-3">
+                                    <span>Built-in personas follow the {selected.name} chat mode. Duplicate one to customize it.</span>
+                                    <button onClick={() => startDraft(selected)} className={toolClass}><Icons.Copy className="h-3.5 w-3.5" /> Duplicate</button>
+                                </div>
+                            )}
+                            <div>
+                                <label className={labelClass}>Name</label>
+                                <input value={selected.name} onChange={e => update({ name: e.target.value })} disabled={!isCustomDraft} maxLength={40} className={fieldClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>System instructions</label>
+                                <textarea
+                                    value={selected.instructions}
+                                    onChange={e => update({ instructions: e.target.value })}
+                                    disabled={!isCustomDraft}
+                                    rows={6}
+                                    placeholder="e.g. You are a patient physics tutor. Answer with a worked example, then one practice question."
+                                    className={`${fieldClass} resize-y`}
+                                />
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <Dropdown label="Default language" options={PERSONA_LANGUAGES} selected={selected.language} onSelect={language => update({ language })} disabled={!isCustomDraft} />
+                                <Dropdown label="Model routing" options={CHAT_MODES} selected={selected.baseMode} onSelect={baseMode => update({ baseMode })} disabled={!isCustomDraft} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Temperature: {selected.temperature === undefined ? 'model default' : selected.temperature.toFixed(1)}</label>
+                                <div className="flex items-center gap-4">
+                                    <input
+                                        type="range" min={0} max={2} step={0.1}
+                                        value={selected.temperature ?? 1}
+                                        onChange={e => update({ temperature: Number(e.target.value) })}
+                                        disabled={!isCustomDraft}
+                                        className="flex-1 accent-cyan-600"
+                                    />
+                                    <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                                        <input type="checkbox" checked={selected.temperature === undefined} onChange={e => update({ temperature: e.target.checked ? undefined : 1 })} disabled={!isCustomDraft} className="accent-cyan-600" />
+                                        Default
+                                    </label>
+                                </div>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Allowed attachments</label>
+                                <div className="flex gap-4">
+                                    {PERSONA_ATTACHMENTS.map(a => (
+                                        <label key={a} className="flex items-center gap-2 text-sm font-bold text-slate-600 dark:text-slate-300">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.attachments.includes(a)}
+                                                onChange={e => update({ attachments: PERSONA_ATTACHMENTS.filter(x => x === a ? e.target.checked : selected.attachments.includes(x)) })}
+                                                disabled={!isCustomDraft}
+                                                className="accent-cyan-600"
+                                            />
+                                            {PERSONA_ATTACHMENT_LABELS[a]}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Starter prompts (one per line, up to {MAX_STARTER_PROMPTS})</label>
+                                <textarea
+                                    value={selected.starterPrompts.join('\n')}
+                                    onChange={e => update({ starterPrompts: e.target.value.split('\n') })}
+                                    disabled={!isCustomDraft}
+                                    rows={4}
+                                    className={`${fieldClass} resize-y`}
+                                />
+                            </div>
+                            {isCustomDraft && (
+                                <div className="flex flex-wrap justify-end gap-2 pt-2">
+                                    {saved && (
+                                        <>
+                                            <button onClick={() => handleExport([saved])} className={toolClass}><Icons.Download className="h-3.5 w-3.5" /> Export</button>
+                                            <button onClick={handleDelete} className={`${toolClass} hover:!text-red-500`}><Icons.Trash className="h-3.5 w-3.5" /> Delete</button>
+                                        </>
+                                    )}
+                                    <button onClick={handleSave} className="px-6 py-2 rounded-xl bg-cyan-600 text-white text-[10px] font-black uppercase tracking-widest shadow-xl shadow-cyan-600/20 hover:bg-cyan-500 transition-all">Save persona</button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <input type="file" ref={importRef} className="hidden" accept="application/json,.json" onChange={handleImport} />
+        </div>
+    );
+};
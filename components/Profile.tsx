@@ -2,7 +2,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Icons } from './Icons';
 import { Message } from '../types';
-import { getSavedMessagesKey, GLOBAL_NOTES_KEY, SIKE_USERS_KEY } from '../utils/appUtils';
+import { GLOBAL_NOTES_KEY, SIKE_USERS_KEY } from '../utils/appUtils';
+import { clearResponseCache, getResponseCacheStats } from '../services/responseCache';
+import { loadQuarantinedRecords, loadSavedMessages, QuarantinedRecord, unsaveMessage } from '../services/repository';
+import { createBackup, previewBackup, restoreBackup, RestoreCategory, RestoreMode, RestorePreviewItem } from '../services/backup';
+import { BackupDocument, formatMigrationReport, getLastMigrationReport, migrateBackup, MigrationReport } from '../services/dataMigrations';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from '../services/backupCrypto';
+import { getLastSyncedAt, isSyncEnabled, setSyncEnabled, syncNow } from '../services/syncService';
+
+interface PendingRestore {
+    backup: BackupDocument;
+    report: MigrationReport;
+    preview: RestorePreviewItem[];
+}
+
+const PREVIEW_ITEM_LIMIT = 5;
+const MIN_PASSPHRASE_LENGTH = 8;
 
 export const ProfilePage: React.FC<{
     currentNotes: string;
@@ -12,31 +27,76 @@ export const ProfilePage: React.FC<{
     const [activeTab, setActiveTab] = useState('memory');
     const [notes, setNotes] = useState(currentNotes);
     const [savedMessages, setSavedMessages] = useState<Message[]>([]);
+    const [cacheStats, setCacheStats] = useState<{ entries: number; bytes: number } | null>(null);
+    const [schemaReport] = useState(getLastMigrationReport);
+    const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+    const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+    const [restoreCategories, setRestoreCategories] = useState<RestoreCategory[]>([]);
+    const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [encryptExport, setEncryptExport] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [passphraseConfirm, setPassphraseConfirm] = useState('');
+    const [autoSync, setAutoSync] = useState(isSyncEnabled);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [syncStatus, setSyncStatus] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const savedMessagesKey = getSavedMessagesKey(currentUserEmail);
-
     useEffect(() => {
         setNotes(currentNotes);
     }, [currentNotes]);
     
     useEffect(() => {
         if (activeTab === 'saved') {
-            try {
-                const saved = JSON.parse(localStorage.getItem(savedMessagesKey) || '[]');
-                setSavedMessages(saved);
-            } catch (e) {
+            loadSavedMessages(currentUserEmail).then(setSavedMessages).catch(e => {
                 console.error("Failed to load saved messages:", e);
                 setSavedMessages([]);
-            }
+            });
+        }
+    }, [activeTab, currentUserEmail]);
+
+    useEffect(() => {
+        if (activeTab === 'data') {
+            getResponseCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+            loadQuarantinedRecords().then(setQuarantined).catch(e => console.error("Failed to load quarantined records:", e));
+        }
+    }, [activeTab]);
+
+    const handleClearCache = async () => {
+        if (!window.confirm("Clear all cached AI lookups? Verbs, translations and titles will be fetched again.")) return;
+        try {
+            await clearResponseCache();
+            setCacheStats({ entries: 0, bytes: 0 });
+        } catch (e) {
+            console.error("Failed to clear response cache:", e);
+            alert("Could not clear the response cache.");
+        }
+    };
+
+    const handleSyncNow = async () => {
+        setIsSyncing(true);
+        setSyncStatus('');
+        try {
+            const { pushed, pulled, conflicts } = await syncNow(currentUserEmail);
+            setSyncStatus(`Sent ${pushed}, received ${pulled}${conflicts ? `, ${conflicts} kept from another device` : ''}.`);
+            if (pulled > 0 && window.confirm("New data arrived from your other devices. Reload now to see it?")) window.location.reload();
+        } catch (err) {
+            console.error("Sync failed:", err);
+            setSyncStatus(`Sync failed. ${(err as Error).message}`);
+        } finally {
+            setIsSyncing(false);
         }
-    }, [activeTab, savedMessagesKey]);
+    };
+
+    const handleToggleAutoSync = (enabled: boolean) => {
+        setSyncEnabled(enabled);
+        setAutoSync(enabled);
+    };
 
     const handleUnsave = (messageId: string) => {
         if (window.confirm("Are you sure you want to remove this saved item?")) {
-            const updated = savedMessages.filter(m => m.id !== messageId);
-            setSavedMessages(updated);
-            localStorage.setItem(savedMessagesKey, JSON.stringify(updated));
+            setSavedMessages(savedMessages.filter(m => m.id !== messageId));
+            unsaveMessage(currentUserEmail, messageId);
         }
     };
     
@@ -46,78 +106,117 @@ export const ProfilePage: React.FC<{
 
     /**
      * UNIVERSAL BACKUP CORE
-     * Collects all keys related to the SigNify ecosystem.
+     * Collects all keys related to the SigNify ecosystem, plus every IndexedDB record.
+     * With a passphrase set, the file is sealed in an encrypted envelope instead.
      */
-    const handleExportData = () => {
-        const data: Record<string, string> = {};
-        const prefixFilters = ['sike', 'signify', 'sindhi']; // Capture all variant keys
-        
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key && prefixFilters.some(pref => key.toLowerCase().includes(pref))) {
-                data[key] = localStorage.getItem(key) || '';
+    const handleExportData = async () => {
+        if (encryptExport) {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) return alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+            if (passphrase !== passphraseConfirm) return alert("Passphrases do not match.");
+        }
+
+        let appBackup;
+        try {
+            appBackup = await createBackup();
+        } catch (err) {
+            alert(`Backup failed. ${(err as Error).message || "Local storage could not be read."}`);
+            console.error(err);
+            return;
+        }
+        const json = JSON.stringify(appBackup, null, 2);
+        let contents = json;
+        if (encryptExport) {
+            try {
+                contents = JSON.stringify(await encryptBackup(json, passphrase), null, 2);
+            } catch (err) {
+                alert("Encryption failed. Your browser may not support WebCrypto on this page.");
+                console.error(err);
+                return;
             }
         }
 
-        const appBackup = {
-            version: "3.2",
-            timestamp: Date.now(),
-            bundle: data
-        };
+        const blob = new Blob([contents], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `signify_master_backup_${new Date().toISOString().slice(0,10)}${encryptExport ? '_encrypted' : ''}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
 
-        const blob = new Blob([JSON.stringify(appBackup, null, 2)], { type: 'application/json' });
+    /** Records the storage upgrades could not repair, as they were stored, for manual recovery. */
+    const handleExportQuarantine = () => {
+        const blob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `signify_master_backup_${new Date().toISOString().slice(0,10)}.json`;
+        a.download = `signify_quarantine_${new Date().toISOString().slice(0,10)}.json`;
         a.click();
         URL.revokeObjectURL(url);
     };
 
     /**
      * UNIVERSAL RESTORE CORE
+     * Encrypted files are unlocked with the passphrase, older backups are upgraded
+     * and validated, then previewed so the user can pick categories and merge or
+     * replace before anything is written.
      */
     const handleImportData = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
+            let migration;
             try {
-                const raw = JSON.parse(event.target?.result as string);
-                const data = raw.bundle || raw; // Support both old and new backup formats
-                
-                if (typeof data !== 'object') throw new Error("Invalid data format");
-                
-                if (window.confirm("This will replace all current chats and settings. Are you sure?")) {
-                    // Clear existing app data first to prevent key collision
-                    const prefixFilters = ['sike', 'signify', 'sindhi'];
-                    const keysToRemove: string[] = [];
-                    for (let i = 0; i < localStorage.length; i++) {
-                        const key = localStorage.key(i);
-                        if (key && prefixFilters.some(pref => key.toLowerCase().includes(pref))) {
-                            keysToRemove.push(key);
-                        }
-                    }
-                    keysToRemove.forEach(k => localStorage.removeItem(k));
-
-                    // Restore new data
-                    Object.keys(data).forEach(key => {
-                        localStorage.setItem(key, data[key]);
-                    });
-
-                    alert("SigNify logic core restored! Restarting...");
-                    window.location.reload();
+                let raw = JSON.parse(event.target?.result as string);
+                if (isEncryptedBackup(raw)) {
+                    const key = window.prompt("This backup is encrypted. Enter its passphrase:");
+                    if (!key) return;
+                    raw = JSON.parse(await decryptBackup(raw, key));
                 }
+                migration = migrateBackup(raw);
             } catch (err) {
-                alert("Restoration failed. The file may be corrupted.");
+                alert(`Restoration failed. ${err instanceof SyntaxError ? "The file may be corrupted." : (err as Error).message}`);
                 console.error(err);
+                return;
+            }
+
+            const { backup, report } = migration;
+            const preview = previewBackup(backup);
+            if (preview.length === 0) {
+                alert("This backup does not contain any SigNify data.");
+                return;
             }
+            setPendingRestore({ backup, report, preview });
+            setRestoreCategories(preview.map(p => p.category));
+            setRestoreMode('merge');
         };
         reader.readAsText(file);
         if (e.target) e.target.value = '';
     };
 
+    const toggleRestoreCategory = (category: RestoreCategory) => {
+        setRestoreCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+    };
+
+    const handleConfirmRestore = async () => {
+        if (!pendingRestore || restoreCategories.length === 0) return;
+        if (restoreMode === 'replace' && !window.confirm("Replace will erase the selected categories on this device before importing. Are you sure?")) return;
+        setIsRestoring(true);
+        try {
+            await restoreBackup(pendingRestore.backup, restoreCategories, restoreMode);
+            alert("SigNify logic core restored! Restarting...");
+            window.location.reload();
+        } catch (err) {
+            alert("Restoration failed while writing data.");
+            console.error(err);
+            setIsRestoring(false);
+        }
+    };
+
+    const lastSyncedAt = currentUserEmail ? getLastSyncedAt(currentUserEmail) : null;
+
     const suggestions = [
         "Respond like a wise sage. Focus on logic and clarity.",
         "Always address me by my preferred title.",
@@ -227,24 +326,129 @@ export const ProfilePage: React.FC<{
                                     <div className="bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col justify-between">
                                         <div>
                                             <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-2 flex items-center gap-2"><Icons.Download className="h-5 w-5" /> Master Export</h3>
-                                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-6">Serializes all your neural data into a single portable JSON file.</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">Serializes all your neural data into a single portable JSON file.</p>
+                                            <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 mb-3 cursor-pointer">
+                                                <input type="checkbox" checked={encryptExport} onChange={e => setEncryptExport(e.target.checked)} className="accent-cyan-600" />
+                                                <Icons.Lock className="h-4 w-4" /> Encrypt with passphrase
+                                            </label>
+                                            {encryptExport && (
+                                                <div className="space-y-2 mb-4">
+                                                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase" autoComplete="new-password" className="w-full p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm focus:ring-2 focus:ring-cyan-500 outline-none" />
+                                                    <input type="password" value={passphraseConfirm} onChange={e => setPassphraseConfirm(e.target.value)} placeholder="Confirm passphrase" autoComplete="new-password" className="w-full p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm focus:ring-2 focus:ring-cyan-500 outline-none" />
+                                                    <p className="text-[10px] text-slate-400">The passphrase cannot be recovered. Without it the backup cannot be restored.</p>
+                                                </div>
+                                            )}
                                         </div>
                                         <button onClick={handleExportData} className="w-full py-4 px-4 rounded-[20px] bg-cyan-600 text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-cyan-500 transition shadow-lg">Download Backup</button>
                                     </div>
                                     <div className="bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col justify-between">
                                         <div>
                                             <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-2 flex items-center gap-2"><Icons.Upload className="h-5 w-5" /> Master Import</h3>
-                                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-6">Restore your environment. Warning: overwrites current data.</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-6">Preview a backup, then merge or replace the categories you choose.</p>
                                         </div>
                                         <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden" />
                                         <button onClick={() => fileInputRef.current?.click()} className="w-full py-4 px-4 rounded-[20px] bg-slate-200 dark:bg-slate-800 text-slate-800 dark:text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-slate-300 dark:hover:bg-slate-700 transition shadow-lg">Upload Backup</button>
                                     </div>
                                 </div>
+                                <div className="mt-6 bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                    <div>
+                                        <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-2 flex items-center gap-2"><Icons.RefreshCw className="h-5 w-5" /> Cross-Device Sync</h3>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {currentUserEmail
+                                                ? `Keeps conversations, vault files, exam history and settings in step across your devices. ${lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}.` : 'Not synced yet.'}`
+                                                : 'Sign in to sync your data across devices.'}
+                                        </p>
+                                        {syncStatus && <p className="text-xs font-bold text-cyan-600 dark:text-cyan-400 mt-1">{syncStatus}</p>}
+                                        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 mt-3 cursor-pointer">
+                                            <input type="checkbox" checked={autoSync} onChange={e => handleToggleAutoSync(e.target.checked)} disabled={!currentUserEmail} className="accent-cyan-600" />
+                                            Sync automatically
+                                        </label>
+                                    </div>
+                                    <button onClick={handleSyncNow} disabled={!currentUserEmail || isSyncing} className="flex-shrink-0 py-4 px-6 rounded-[20px] bg-cyan-600 text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-cyan-500 disabled:opacity-50 transition shadow-lg">
+                                        {isSyncing ? 'Syncing...' : 'Sync Now'}
+                                    </button>
+                                </div>
+                                {pendingRestore && (
+                                    <div className="mt-6 bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border-2 border-cyan-500/40 shadow-sm">
+                                        <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-1 flex items-center gap-2"><Icons.Upload className="h-5 w-5" /> Restore Preview</h3>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                                            Backup from {new Date(pendingRestore.backup.timestamp).toLocaleString()}. Choose what to import.
+                                        </p>
+                                        <div className="space-y-3 mb-4">
+                                            {pendingRestore.preview.map(item => (
+                                                <label key={item.category} className="flex items-start gap-3 p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={restoreCategories.includes(item.category)}
+                                                        onChange={() => toggleRestoreCategory(item.category)}
+                                                        className="mt-1 accent-cyan-600"
+                                                    />
+                                                    <div className="min-w-0">
+                                                        <p className="text-sm font-bold text-slate-800 dark:text-slate-200">{item.label} <span className="text-cyan-600 dark:text-cyan-400">({item.count})</span></p>
+                                                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                                                            {item.items.slice(0, PREVIEW_ITEM_LIMIT).join(' • ')}
+                                                            {item.count > PREVIEW_ITEM_LIMIT && ` • +${item.count - PREVIEW_ITEM_LIMIT} more`}
+                                                        </p>
+                                                    </div>
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <div className="flex p-1 bg-slate-200 dark:bg-slate-800 rounded-2xl mb-2">
+                                            {(['merge', 'replace'] as RestoreMode[]).map(mode => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => setRestoreMode(mode)}
+                                                    className={`flex-1 py-2 rounded-xl text-[10px] font-black font-commander uppercase tracking-widest transition ${restoreMode === mode ? 'bg-white dark:bg-slate-700 text-cyan-600 dark:text-cyan-400 shadow' : 'text-slate-500'}`}
+                                                >
+                                                    {mode}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                                            {restoreMode === 'merge'
+                                                ? "Keeps your current data and adds the backup's records. Where both have the same item, the more recently updated copy wins."
+                                                : "Erases the selected categories on this device and replaces them with the backup."}
+                                        </p>
+                                        <details className="mb-4">
+                                            <summary className="text-xs font-bold text-slate-500 cursor-pointer">Migration report</summary>
+                                            <pre className="mt-2 text-[10px] font-mono text-slate-500 dark:text-slate-400 whitespace-pre-wrap">{formatMigrationReport(pendingRestore.report)}</pre>
+                                        </details>
+                                        <div className="flex gap-3">
+                                            <button onClick={() => setPendingRestore(null)} disabled={isRestoring} className="flex-1 py-4 px-4 rounded-[20px] bg-slate-200 dark:bg-slate-800 text-slate-800 dark:text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-slate-300 dark:hover:bg-slate-700 disabled:opacity-50 transition shadow-lg">Cancel</button>
+                                            <button onClick={handleConfirmRestore} disabled={isRestoring || restoreCategories.length === 0} className="flex-1 py-4 px-4 rounded-[20px] bg-cyan-600 text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-cyan-500 disabled:opacity-50 transition shadow-lg">
+                                                {isRestoring ? 'Restoring...' : `Restore ${restoreCategories.length} ${restoreCategories.length === 1 ? 'Category' : 'Categories'}`}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                <div className="mt-6 bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                    <div>
+                                        <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-2 flex items-center gap-2"><Icons.Cpu className="h-5 w-5" /> Response Cache</h3>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            Verb lookups, translations and chat titles are stored on this device to skip repeat requests.
+                                            {cacheStats && ` ${cacheStats.entries} entries • ${(cacheStats.bytes / 1024).toFixed(1)} KB.`}
+                                        </p>
+                                    </div>
+                                    <button onClick={handleClearCache} disabled={cacheStats?.entries === 0} className="flex-shrink-0 py-4 px-6 rounded-[20px] bg-slate-200 dark:bg-slate-800 text-slate-800 dark:text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-red-500 hover:text-white disabled:opacity-50 transition shadow-lg">Clear Cache</button>
+                                </div>
+                                {schemaReport && (
+                                    <div className="mt-6 bg-slate-50 dark:bg-slate-900 p-6 rounded-[32px] border border-slate-200 dark:border-slate-800 shadow-sm">
+                                        <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-2 flex items-center gap-2"><Icons.Sparkles className="h-5 w-5" /> Data Schema v{schemaReport.toVersion}</h3>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Last storage upgrade on {new Date(schemaReport.at).toLocaleString()}.</p>
+                                        <pre className="text-[10px] font-mono text-slate-500 dark:text-slate-400 whitespace-pre-wrap">{formatMigrationReport(schemaReport)}</pre>
+                                        {quarantined.length > 0 && (
+                                            <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{quarantined.length} record{quarantined.length === 1 ? ' was' : 's were'} set aside by storage upgrades because they could not be repaired. They are kept on this device; export them to recover their contents.</p>
+                                                <button onClick={handleExportQuarantine} className="flex-shrink-0 py-4 px-6 rounded-[20px] bg-slate-200 dark:bg-slate-800 text-slate-800 dark:text-white font-black font-commander text-[10px] uppercase tracking-widest hover:bg-cyan-600 hover:text-white transition shadow-lg">Export Set-Aside Records</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                                 <div className="mt-8 p-4 bg-yellow-500/10 rounded-2xl border border-yellow-500/20">
                                     <p className="text-[10px] text-yellow-600 dark:text-yellow-400 font-bold uppercase tracking-widest flex items-center gap-2">
                                         <Icons.AlertTriangle className="h-4 w-4" /> Technical Note
                                     </p>
-                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Backups include full chat history and all local linguistic training data.</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Backups include full chat history and all local linguistic training data. Unencrypted files store your notes, chats and vault documents in plain text.</p>
                                 </div>
                             </div>
                         )}
@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Icons } from './Icons';
+import { Dropdown, HighlightedSnippet, LoadingSpinner } from './Shared';
+import { PageProps } from '../types';
+import { allPersonas } from '../services/personas';
+import { buildSearchIndex, SEARCH_SOURCE_LABELS, SEARCH_SOURCES, SearchEntry, SearchHit, searchEntries, SearchSource } from '../services/searchIndex';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES: Record<string, { label: string; days: number }> = {
+    any: { label: 'Any time', days: 0 },
+    day: { label: 'Last 24 hours', days: 1 },
+    week: { label: 'Last 7 days', days: 7 },
+    month: { label: 'Last 30 days', days: 30 },
+    year: { label: 'Last year', days: 365 }
+};
+
+const ALL = 'all';
+
+const SOURCE_ICONS: Record<SearchSource, React.ElementType> = {
+    chat: Icons.MessageSquare,
+    creative: Icons.Sparkles,
+    notebook: Icons.BookOpen,
+    saved: Icons.Bookmark
+};
+
+/**
+ * SEARCH
+ * Full-text search over everything stored on this device (services/searchIndex.ts).
+ * `linkedQuery` (q, source, range, mode) comes from the `#/search` route and every
+ * change is reported back, so a search can be bookmarked or shared.
+ */
+export const SearchPage: React.FC<PageProps & {
+    setPage: (page: string, params?: Record<string, string>) => void;
+    linkedQuery?: Record<string, string>;
+    onQueryChange?: (query: Record<string, string>) => void;
+}> = ({ currentUserEmail, setPage, linkedQuery = {}, onQueryChange }) => {
+    const [entries, setEntries] = useState<SearchEntry[] | null>(null);
+    const [query, setQuery] = useState(linkedQuery.q || '');
+    const [source, setSource] = useState<string>(SEARCH_SOURCES.includes(linkedQuery.source as SearchSource) ? linkedQuery.source : ALL);
+    const [range, setRange] = useState(DATE_RANGES[linkedQuery.range] ? linkedQuery.range : 'any');
+    const [chatMode, setChatMode] = useState(linkedQuery.mode || ALL);
+
+    useEffect(() => {
+        setEntries(null);
+        buildSearchIndex(currentUserEmail).then(setEntries).catch(e => {
+            console.error("Failed to build search index:", e);
+            setEntries([]);
+        });
+    }, [currentUserEmail]);
+
+    useEffect(() => {
+        onQueryChange?.({
+            ...(query.trim() && { q: query.trim() }),
+            ...(source !== ALL && { source }),
+            ...(range !== 'any' && { range }),
+            ...(chatMode !== ALL && { mode: chatMode })
+        });
+    }, [query, source, range, chatMode]);
+
+    // Personas in the library plus any that replies were made with and have since been deleted
+    const personaNames = useMemo(
+        () => Array.from(new Set([...allPersonas().map(p => p.name), ...(entries || []).map(e => e.chatMode).filter((m): m is string => !!m)])),
+        [entries]
+    );
+
+    const hits: SearchHit[] = useMemo(() => {
+        if (!entries) return [];
+        const days = DATE_RANGES[range].days;
+        return searchEntries(entries, query, {
+            source: source === ALL ? undefined : source as SearchSource,
+            since: days ? Date.now() - days * DAY_MS : undefined,
+            chatMode: chatMode === ALL ? undefined : chatMode
+        });
+    }, [entries, query, source, range, chatMode]);
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-4 md:p-8 bg-slate-50 dark:bg-slate-950">
+            <div className="max-w-4xl mx-auto">
+                <div className="flex items-center gap-4 mb-8">
+                    <div className="p-4 bg-cyan-600 rounded-[24px] text-white shadow-xl shadow-cyan-500/20 transform -rotate-3">
+                        <Icons.Search className="h-8 w-8" />
+                    </div>
+                    <div>
+                        <h1 className="text-3xl font-black font-commander uppercase tracking-tighter text-slate-900 dark:text-white">Neural Search</h1>
+                        <p className="text-sm text-cyan-600 dark:text-cyan-400 font-bold uppercase tracking-widest">
+                            {entries ? `${entries.length} messages indexed on this device` : 'Indexing...'}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="relative mb-6">
+                    <Icons.Search className="absolute left-6 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
+                    <input
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        autoFocus
+                        placeholder="Search conversations, studio drafts, notebook chats and bookmarks..."
+                        className="w-full pl-14 pr-6 py-5 rounded-[32px] bg-white dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-800 focus:border-cyan-500 outline-none font-bold text-slate-800 dark:text-white shadow-xl"
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+                    <Dropdown
+                        label="Page"
+                        options={[ALL, ...SEARCH_SOURCES]}
+                        selected={source}
+                        onSelect={setSource}
+                        displayValueMap={{ [ALL]: 'All pages', ...SEARCH_SOURCE_LABELS }}
+                    />
+                    <Dropdown
+                        label="Date"
+                        options={Object.keys(DATE_RANGES)}
+                        selected={range}
+                        onSelect={setRange}
+                        displayValueMap={Object.fromEntries(Object.entries(DATE_RANGES).map(([key, r]) => [key, r.label]))}
+                    />
+                    <Dropdown
+                        label="Persona"
+                        options={[ALL, ...personaNames]}
+                        selected={chatMode}
+                        onSelect={setChatMode}
+                        displayValueMap={{ [ALL]: 'Any persona' }}
+                    />
+                </div>
+
+                {!entries ? (
+                    <LoadingSpinner label="Building search index..." />
+                ) : !query.trim() ? (
+                    <div className="h-64 flex flex-col items-center justify-center opacity-30">
+                        <Icons.Search className="h-12 w-12 mb-2" />
+                        <p className="text-sm uppercase font-black tracking-widest">Type to search</p>
+                    </div>
+                ) : hits.length === 0 ? (
+                    <div className="h-64 flex flex-col items-center justify-center opacity-30">
+                        <Icons.Search className="h-12 w-12 mb-2" />
+                        <p className="text-sm uppercase font-black tracking-widest">No matches</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {hits.map(hit => {
+                            const { entry } = hit;
+                            const SourceIcon = SOURCE_ICONS[entry.source];
+                            const target = entry.target;
+                            return (
+                                <button
+                                    key={`${entry.source}|${entry.target?.params.conversationId || ''}|${entry.messageId}`}
+                                    onClick={() => target && setPage(target.page, target.params)}
+                                    disabled={!target}
+                                    className="w-full text-left p-5 rounded-[28px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 hover:border-cyan-500 transition-all disabled:hover:border-slate-200 dark:disabled:hover:border-slate-800 disabled:cursor-default"
+                                >
+                                    <div className="flex items-center gap-2 mb-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                        <SourceIcon className="h-4 w-4 text-cyan-500" />
+                                        <span className="text-cyan-600 dark:text-cyan-400">{SEARCH_SOURCE_LABELS[entry.source]}</span>
+                                        <span className="truncate normal-case tracking-normal font-bold text-slate-600 dark:text-slate-300">{entry.title}</span>
+                                        <span className="ml-auto flex-shrink-0 font-mono">{entry.timestamp ? new Date(entry.timestamp).toLocaleDateString() : ''}</span>
+                                    </div>
+                                    <HighlightedSnippet parts={hit.snippet} className="text-sm" />
+                                    <p className="text-[9px] text-slate-400 mt-2 font-mono uppercase">
+                                        {entry.sender === 'user' ? 'You' : 'SigNify'}{entry.chatMode ? ` · ${entry.chatMode}` : ''}{target ? '' : ' · original no longer stored'}
+                                    </p>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Icons } from './Icons';
 import { UserProfile, Source } from '../types';
+import { ENTITLEMENT_LABELS, formatEntitlement, getDailyUsage, TIER_ENTITLEMENTS, TIER_ORDER, TierEntitlements } from '../services/entitlements';
+import { AuthSession, register, signIn } from '../services/authService';
+import { SnippetPart } from '../services/searchIndex';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '../services/conversationExport';
 
 export const LoadingSpinner: React.FC<{ size?: string; label?: string }> = ({ size = '60px', label }) => {
   return (
@@ -92,6 +96,49 @@ export const SourceBubble: React.FC<{ source: Source }> = ({ source }) => (
   </a>
 );
 
+/** Search result text with the matched terms marked (see services/searchIndex.ts). */
+export const HighlightedSnippet: React.FC<{ parts: SnippetPart[]; className?: string }> = ({ parts, className = '' }) => (
+  <p className={`text-xs text-slate-500 dark:text-slate-400 leading-relaxed break-words ${className}`}>
+    {parts.map((part, i) => part.match
+      ? <mark key={i} className="bg-cyan-500/20 text-cyan-700 dark:text-cyan-300 rounded px-0.5">{part.text}</mark>
+      : <span key={i}>{part.text}</span>)}
+  </p>
+);
+
+/** Format menu for transcript exports (see services/conversationExport.ts); failures are shown as an alert. */
+export const ExportMenu: React.FC<{ onExport: (format: ExportFormat) => void; disabled?: boolean; className?: string; title?: string }> = ({ onExport, disabled = false, className = '', title = 'Export transcript' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      onExport(format);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(o => !o)} disabled={disabled} title={title} className={`p-3 rounded-2xl active:scale-90 transition-all disabled:opacity-40 ${className}`}>
+        <Icons.Download className="h-5 w-5" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 z-50 w-56 p-2 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 shadow-2xl">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <button key={format} onClick={() => handleExport(format)} className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:bg-cyan-600/10 hover:text-cyan-600 dark:hover:text-cyan-400">
+                <Icons.FileText className="h-4 w-4" /> {EXPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 export const Dropdown: React.FC<{
   label?: string;
   options: (string | number)[];
@@ -165,22 +212,56 @@ export const Dropdown: React.FC<{
   );
 };
 
-export const LoginModal: React.FC<{ isOpen: boolean; onClose: () => void; onLogin: (name: string, email: string) => void }> = ({ isOpen, onClose, onLogin }) => {
+export const LoginModal: React.FC<{ isOpen: boolean; onClose: () => void; onLogin: (session: AuthSession) => void }> = ({ isOpen, onClose, onLogin }) => {
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const session = mode === 'register' ? await register(name, email, password) : await signIn(email, password);
+      setPassword('');
+      onLogin(session);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'signIn' ? 'register' : 'signIn');
+    setError('');
+  };
+
   return (
     <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md">
       <div className="w-full max-w-md bg-white dark:bg-slate-900 rounded-[40px] shadow-2xl border-4 border-cyan-500 p-8 transform animate-in zoom-in-95 duration-200">
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-2xl font-black font-commander uppercase tracking-tighter text-slate-900 dark:text-white">Sign In</h2>
+          <h2 className="text-2xl font-black font-commander uppercase tracking-tighter text-slate-900 dark:text-white">{mode === 'signIn' ? 'Sign In' : 'Create Account'}</h2>
           <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><Icons.X className="h-6 w-6" /></button>
         </div>
-        <form onSubmit={(e) => { e.preventDefault(); onLogin(name, email); }} className="space-y-4">
-          <input type="text" placeholder="Full Name" value={name} onChange={e => setName(e.target.value)} required className="w-full px-5 py-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-medium" />
-          <input type="email" placeholder="Email Address" value={email} onChange={e => setEmail(e.target.value)} required className="w-full px-5 py-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-medium" />
-          <button type="submit" className="w-full py-5 bg-cyan-600 text-white rounded-3xl font-black font-commander tracking-widest uppercase shadow-xl shadow-cyan-600/20 hover:bg-cyan-500 transition-all">Establish Handshake</button>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <input type="text" placeholder="Full Name" value={name} onChange={e => setName(e.target.value)} required autoComplete="name" className="w-full px-5 py-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-medium" />
+          )}
+          <input type="email" placeholder="Email Address" value={email} onChange={e => setEmail(e.target.value)} required autoComplete="email" className="w-full px-5 py-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-medium" />
+          <input type="password" placeholder="Password" value={password} onChange={e => setPassword(e.target.value)} required minLength={mode === 'register' ? 8 : undefined} autoComplete={mode === 'register' ? 'new-password' : 'current-password'} className="w-full px-5 py-4 rounded-2xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-medium" />
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+          <button type="submit" disabled={isSubmitting} className="w-full py-5 bg-cyan-600 text-white rounded-3xl font-black font-commander tracking-widest uppercase shadow-xl shadow-cyan-600/20 hover:bg-cyan-500 disabled:opacity-50 transition-all">
+            {isSubmitting ? 'Verifying...' : 'Establish Handshake'}
+          </button>
         </form>
+        <button onClick={switchMode} className="w-full mt-4 text-xs font-bold text-slate-500 hover:text-cyan-600 transition-colors">
+          {mode === 'signIn' ? "New here? Create an account" : "Already have an account? Sign in"}
+        </button>
       </div>
     </div>
   );
@@ -200,20 +281,59 @@ export const SelectionCopyPopover: React.FC<{ popover: { visible: boolean; top:
   );
 };
 
-export const SubscriptionModal: React.FC<{ isOpen: boolean; onClose: () => void; user: UserProfile | null; onRedeem: (code: string) => void }> = ({ isOpen, onClose, user, onRedeem }) => {
+/** Today's usage next to the plan's daily allowance, for the rows that are metered per day. */
+const DAILY_USAGE_ROWS: { key: keyof TierEntitlements; label: string; used: (u: ReturnType<typeof getDailyUsage>) => number }[] = [
+  { key: 'dailyMessages', label: 'messages', used: u => u.messages },
+  { key: 'dailyTtsMinutes', label: 'voice min', used: u => Math.ceil(u.ttsSeconds / 60) },
+  { key: 'dailyImages', label: 'images', used: u => u.images }
+];
+
+export const SubscriptionModal: React.FC<{ isOpen: boolean; onClose: () => void; user: UserProfile | null; reason?: string; onRedeem: (code: string) => void }> = ({ isOpen, onClose, user, reason, onRedeem }) => {
   const [code, setCode] = useState('');
   if (!isOpen) return null;
+  const currentTier = user?.subscription && user.subscription.expiry > Date.now() ? user.subscription.tier : 'free';
+  const usage = getDailyUsage(user?.email || null);
   return (
     <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md">
-      <div className="w-full max-w-md bg-white dark:bg-slate-900 rounded-[40px] shadow-2xl border-4 border-cyan-500 p-10 transform animate-in zoom-in-95 duration-200">
+      <div className="w-full max-w-lg max-h-[95vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-[40px] shadow-2xl border-4 border-cyan-500 p-10 transform animate-in zoom-in-95 duration-200">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-black font-commander uppercase tracking-tighter text-slate-900 dark:text-white">Neural Hub</h2>
           <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><Icons.X className="h-6 w-6" /></button>
         </div>
+        {reason && (
+          <div className="mb-6 p-4 rounded-2xl bg-amber-500/10 border border-amber-500/30 text-amber-600 dark:text-amber-400 text-sm font-bold flex items-start gap-2">
+            <Icons.Lock className="h-5 w-5 flex-shrink-0" /> {reason}
+          </div>
+        )}
+        <div className="mb-6 overflow-x-auto">
+          <table className="w-full text-xs text-left">
+            <thead>
+              <tr className="text-slate-500 uppercase tracking-widest">
+                <th className="py-2 pr-2 font-black">Plan</th>
+                {TIER_ORDER.map(tier => (
+                  <th key={tier} className={`py-2 px-2 font-black text-center ${tier === currentTier ? 'text-cyan-600' : ''}`}>{tier}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800 text-slate-700 dark:text-slate-300">
+              {(Object.keys(ENTITLEMENT_LABELS) as (keyof TierEntitlements)[]).map(key => (
+                <tr key={key}>
+                  <td className="py-2 pr-2">{ENTITLEMENT_LABELS[key]}</td>
+                  {TIER_ORDER.map(tier => (
+                    <td key={tier} className={`py-2 px-2 text-center font-mono ${tier === currentTier ? 'font-black text-cyan-600' : ''}`}>{formatEntitlement(key, TIER_ENTITLEMENTS[tier][key])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            Today: {DAILY_USAGE_ROWS.map(row => `${row.used(usage)}/${TIER_ENTITLEMENTS[currentTier][row.key]} ${row.label}`).join(' · ')}
+          </p>
+        </div>
         <div className="mb-8 text-center">
           <div className="w-20 h-20 bg-cyan-600/10 rounded-[30px] flex items-center justify-center mx-auto mb-4"><Icons.Award className="h-10 w-10 text-cyan-600" /></div>
-          <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 font-medium">Enter your authorization code to extend neural bandwidth.</p>
-          <input type="text" placeholder="XXXX-XXXX-XXXX" value={code} onChange={e => setCode(e.target.value)} className="w-full px-6 py-5 rounded-3xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-mono uppercase text-center text-xl tracking-[0.2em] font-black" />
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 font-medium">Paste your authorization code to extend neural bandwidth. Each code works once.</p>
+          <input type="text" placeholder="SIG1.xxxx.xxxx" value={code} onChange={e => setCode(e.target.value)} className="w-full px-6 py-5 rounded-3xl bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 outline-none focus:border-cyan-500 transition-all font-mono text-center text-sm font-black" />
         </div>
         <button onClick={() => { onRedeem(code); onClose(); }} className="w-full py-5 bg-cyan-600 text-white rounded-3xl font-black font-commander tracking-widest uppercase shadow-xl shadow-cyan-600/20 hover:bg-cyan-500 transition-all">Verify Code</button>
       </div>
@@ -3,12 +3,14 @@ import { Icons } from './Icons';
 import { ChatComponent } from './Chat';
 import { Dropdown, LoadingSpinner } from './Shared';
 import { PageProps } from '../types';
+import { CHAT_THREADS } from '../services/repository';
 import { 
     streamCreativeResponse,
     generateNanoBananaImage
 } from '../services/geminiService';
 
-export const CreativeStudioPage: React.FC<PageProps> = ({ isOnline, currentUserEmail, userProfileNotes }) => {
+/** `linkedMessageId` comes from the `#/creative?message=` link of a search result. */
+export const CreativeStudioPage: React.FC<PageProps & { linkedMessageId?: string }> = ({ isOnline, currentUserEmail, userProfileNotes, linkedMessageId }) => {
     const [visuals, setVisuals] = useState<string[]>([]);
     const [isGeneratingVisuals, setIsGeneratingVisuals] = useState(false);
     const [visualPrompt, setVisualPrompt] = useState('');
@@ -30,7 +32,7 @@ export const CreativeStudioPage: React.FC<PageProps> = ({ isOnline, currentUserE
         <div className="h-full flex flex-col md:flex-row bg-white dark:bg-slate-900 overflow-hidden text-slate-900 dark:text-white">
             <div className="flex-1 flex flex-col h-full border-r border-gray-200 dark:border-slate-800">
                 <ChatComponent 
-                    historyId="creative_studio" 
+                    historyId={CHAT_THREADS.creative} 
                     pageTitle="Creative Studio" 
                     welcomeMessage={{
                         author: 'Studio Director', 
@@ -42,6 +44,7 @@ export const CreativeStudioPage: React.FC<PageProps> = ({ isOnline, currentUserE
                     aiStreamFunction={streamCreativeResponse} 
                     currentUserEmail={currentUserEmail} 
                     userProfileNotes={userProfileNotes}
+                    focusMessageId={linkedMessageId}
                 />
             </div>
 
@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Icons } from './Icons';
-import { Dropdown, LoadingSpinner, CopyButton } from './Shared';
+import { Dropdown, LoadingSpinner, CopyButton, ExportMenu } from './Shared';
 import { PageProps, NotebookSource, Message } from '../types';
 import { generateGeminiTTS, generateMultiSpeakerTTS, streamNotebookChatResponse, generateNotebookOverview } from '../services/geminiService';
+import { describeAIError, toAIError } from '../services/aiErrors';
+import { capacityReachedMessage, remainingCapacity, requestUpgrade } from '../services/entitlements';
 import { createWavBlob } from '../utils/appUtils';
 import { INJECTED_STORIES } from '../services/injectedKnowledge';
-import { ChatMessage } from './Chat';
+import { ChatMessage, useMessageFocus } from './Chat';
+import { CHAT_THREADS, loadChatThread, saveChatThread } from '../services/repository';
+import { exportTranscript } from '../services/conversationExport';
 import JSZip from 'jszip';
 
 /** Audio Decoding Utilities */
@@ -31,7 +35,11 @@ async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate:
 
 type SynthesisStep = 'idle' | 'indexing' | 'scripting' | 'synthesizing' | 'packaging';
 
-export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNotes, currentUserEmail }) => {
+/**
+ * `view` comes from the `#/notebook/:view` route; switching views reports it back.
+ * `linkedMessageId` (`?message=`, from a search result) scrolls to a notebook chat message.
+ */
+export const StoryReaderPage: React.FC<PageProps & { view?: string; onViewChange?: (view: 'reader' | 'chat') => void; linkedMessageId?: string }> = ({ isOnline, userProfileNotes, currentUserEmail, view, onViewChange, linkedMessageId }) => {
     // --- State: Sources ---
     const [sources, setSources] = useState<NotebookSource[]>([]);
     const [selectedSourceIds, setSelectedSourceIds] = useState<Set<string>>(new Set());
@@ -39,7 +47,7 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
     const [isExtractingZip, setIsExtractingZip] = useState(false);
     
     // --- State: Modes ---
-    const [activeView, setActiveView] = useState<'reader' | 'chat'>('reader');
+    const [activeView, setActiveView] = useState<'reader' | 'chat'>(view === 'chat' ? 'chat' : 'reader');
     
     // --- State: Reader/TTS ---
     const [readerText, setReaderText] = useState('');
@@ -66,6 +74,7 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
     const audioContextRef = useRef<AudioContext | null>(null);
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const chatAbortRef = useRef<AbortController | null>(null);
 
     const voiceOptions = ['Kore', 'Zephyr', 'Fenrir', 'Puck', 'Charon'];
     const emotionOptions = ['Storyteller', 'Cheerful', 'Suspenseful', 'Serious', 'Whisper', 'Angry'];
@@ -75,7 +84,26 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages, isChatLoading]);
 
-    useEffect(() => { return () => stopAudio(); }, []);
+    useEffect(() => { return () => { stopAudio(); chatAbortRef.current?.abort(); }; }, []);
+
+    useEffect(() => { setActiveView(view === 'chat' ? 'chat' : 'reader'); }, [view]);
+    useEffect(() => { onViewChange?.(activeView); }, [activeView]);
+
+    useEffect(() => {
+        loadChatThread(currentUserEmail, CHAT_THREADS.notebook).then(setMessages).catch(e => console.error("Failed to load notebook chat:", e));
+    }, [currentUserEmail]);
+
+    // Kept in state because reporting the view back to the route drops the query
+    const [focusMessageId, setFocusMessageId] = useState(linkedMessageId);
+    useEffect(() => { if (linkedMessageId) setFocusMessageId(linkedMessageId); }, [linkedMessageId]);
+    useMessageFocus(focusMessageId, [messages, activeView]);
+
+    /** Updates the notebook chat and queues it for the repository, like ChatComponent does. */
+    const updateMessages = (update: (prev: Message[]) => Message[]) => setMessages(prev => {
+        const updated = update(prev);
+        saveChatThread(currentUserEmail, CHAT_THREADS.notebook, updated);
+        return updated;
+    });
 
     const stopAudio = () => {
         if (audioSourceRef.current) {
@@ -105,8 +133,18 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = Array.from(e.target.files || []) as File[];
         setErrorAlert(null);
+        // Sources left on the current plan; anything past it is dropped with an upgrade prompt
+        let slots = remainingCapacity('notebookSources', sources.length);
+        const overCapacity = () => {
+            setErrorAlert(capacityReachedMessage('notebookSources'));
+            requestUpgrade(capacityReachedMessage('notebookSources'));
+        };
         
         for (const file of files) {
+            if (slots <= 0) {
+                overCapacity();
+                break;
+            }
             if (file.name.toLowerCase().endsWith('.zip')) {
                 setIsExtractingZip(true);
                 try {
@@ -128,6 +166,11 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
                     });
 
                     await Promise.all(extractionPromises);
+                    if (newSources.length > slots) {
+                        newSources.splice(slots);
+                        overCapacity();
+                    }
+                    slots -= newSources.length;
                     setSources(prev => [...prev, ...newSources]);
                     // Auto-select newly uploaded files
                     setSelectedSourceIds(prev => {
@@ -141,6 +184,7 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
                     setIsExtractingZip(false);
                 }
             } else if (file.type === 'text/plain' || file.type === 'text/markdown' || file.name.endsWith('.txt') || file.name.endsWith('.md')) {
+                slots--;
                 const reader = new FileReader();
                 reader.onload = (event) => {
                     const newSource: NotebookSource = {
@@ -190,11 +234,7 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
         } catch (e: any) {
             console.error(e);
             setSynthesisStep('idle');
-            if (e.message?.includes('429')) {
-                setErrorAlert("Neural Bandwidth Saturated. SigNify is operating in Free Mode. Please wait a minute or use the Stable Flash Core (Default).");
-            } else {
-                setErrorAlert("Matrix Handshake failed during Overview generation.");
-            }
+            setErrorAlert(describeAIError(e, language));
         }
     };
 
@@ -237,22 +277,30 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
         const currentInput = chatInput;
         setChatInput('');
         setIsChatLoading(true);
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
 
         try {
-            const stream = streamNotebookChatResponse(currentInput, messages, language, sources, currentUserEmail, userProfileNotes);
+            const stream = streamNotebookChatResponse(currentInput, messages, language, sources, currentUserEmail, userProfileNotes, controller.signal);
             let fullText = '';
             for await (const chunk of stream) {
+                if (chunk.error) throw chunk.error;
+                if (chunk.model || chunk.usage) {
+                    const { model, usage } = chunk;
+                    updateMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, ...(model && { model }), ...(usage && { usage }) } : m));
+                }
                 if (chunk.text) {
                     fullText += chunk.text;
-                    setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: fullText } : m));
+                    updateMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: fullText } : m));
                 }
             }
-        } catch (err: any) {
-            let errorMsg = "Handshake failed. Indexing too large?";
-            if (err.message?.includes('429')) {
-                errorMsg = "Quota exceeded. This is a common limit for Free versions of Gemini. Please switch to the full 'Stable Core' for better results.";
-                setErrorAlert(errorMsg);
+            if (controller.signal.aborted) {
+                updateMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, interrupted: true } : m));
             }
+        } catch (err: any) {
+            const aiErr = toAIError(err);
+            const errorMsg = describeAIError(aiErr, language);
+            if (aiErr.code === 'quota') setErrorAlert(errorMsg);
             setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: errorMsg } : m));
         } finally {
             setIsChatLoading(false);
@@ -384,6 +432,17 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
                     </div>
 
                     <div className="flex items-center gap-4">
+                        {activeView === 'chat' && (
+                            <ExportMenu
+                                onExport={format => exportTranscript({
+                                    title: 'Notebook Chat',
+                                    origin: `Notebook Chat · ${sources.length} sources${sources.length ? `: ${sources.map(s => s.name).join(', ')}` : ''}`,
+                                    messages
+                                }, format)}
+                                disabled={messages.length === 0 || isChatLoading}
+                                className="bg-slate-800 border border-slate-700 text-cyan-500"
+                            />
+                        )}
                         <div className="flex items-center gap-2">
                              <span className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Duration</span>
                              <div className="w-24">
@@ -517,9 +576,15 @@ export const StoryReaderPage: React.FC<PageProps> = ({ isOnline, userProfileNote
                                         placeholder={`Analyze ${sources.length} sources simultaneously...`}
                                         className="w-full pl-10 pr-20 py-5 bg-slate-800 border-2 border-transparent focus:border-cyan-500 rounded-3xl outline-none transition-all font-bold disabled:opacity-50 placeholder:text-slate-600"
                                     />
-                                    <button type="submit" disabled={!chatInput.trim() || isChatLoading} className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-cyan-600 text-white rounded-2xl shadow-xl hover:scale-105 active:scale-95 disabled:opacity-50 transition-all">
-                                        <Icons.Send className="h-5 w-5" />
-                                    </button>
+                                    {isChatLoading ? (
+                                        <button type="button" onClick={() => chatAbortRef.current?.abort()} title="Stop Generation" className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-red-500 text-white rounded-2xl shadow-xl hover:scale-105 active:scale-95 transition-all">
+                                            <Icons.Stop className="h-5 w-5" />
+                                        </button>
+                                    ) : (
+                                        <button type="submit" disabled={!chatInput.trim()} className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-cyan-600 text-white rounded-2xl shadow-xl hover:scale-105 active:scale-95 disabled:opacity-50 transition-all">
+                                            <Icons.Send className="h-5 w-5" />
+                                        </button>
+                                    )}
                                 </form>
                             </div>
                         </div>
@@ -3,6 +3,7 @@ import { Icons } from './Icons';
 import { Dropdown, LoadingSpinner } from './Shared';
 import { PageProps, TranslatorResponse } from '../types';
 import { getTranslatorResponse, getTranslatorResponseFromImage, generateGeminiTTS } from '../services/geminiService';
+import { AIError, describeAIError } from '../services/aiErrors';
 import { createWavBlob } from '../utils/appUtils';
 
 /** Audio Decoding Utilities */
@@ -26,12 +27,16 @@ async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate:
     return buffer;
 }
 
-export const TranslatorPage: React.FC<PageProps> = ({ isOnline }) => {
-    const [sourceText, setSourceText] = useState('');
+/** Longest text kept in a shareable `#/translator?text=` link. */
+const MAX_LINKED_TEXT = 1000;
+
+/** `linkedQuery` (text, from, to) comes from the route; each text translation reports it back so the URL can be shared. */
+export const TranslatorPage: React.FC<PageProps & { linkedQuery?: Record<string, string>; onQueryChange?: (query: Record<string, string>) => void }> = ({ isOnline, linkedQuery = {}, onQueryChange }) => {
+    const [sourceText, setSourceText] = useState(linkedQuery.text || '');
     const [attachedImage, setAttachedImage] = useState<{ base64: string; mimeType: string; name: string } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const [sourceLanguage, setSourceLanguage] = useState('English');
-    const [targetLanguage, setTargetLanguage] = useState('Urdu');
+    const [sourceLanguage, setSourceLanguage] = useState(linkedQuery.from || 'English');
+    const [targetLanguage, setTargetLanguage] = useState(linkedQuery.to || 'Urdu');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [result, setResult] = useState<TranslatorResponse | null>(null);
@@ -44,6 +49,7 @@ export const TranslatorPage: React.FC<PageProps> = ({ isOnline }) => {
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
     useEffect(() => {
+        if (linkedQuery.text) handleTranslate();
         return () => stopTTS();
     }, []);
 
@@ -119,22 +125,16 @@ export const TranslatorPage: React.FC<PageProps> = ({ isOnline }) => {
             }
             
             if (!translation || !translation.mainTranslation) {
-                throw new Error("Translation core returned malformed data.");
+                throw new AIError('malformed-json', "Translation core returned malformed data.");
             }
             
             setResult(translation);
-        } catch (err) {
-            let errorMessage = "Handshake failed. The logic core is currently unreachable.";
-            const rawError = err instanceof Error ? err.message : String(err);
-            
-            // Specifically handle quota exhaustion (429)
-            if (rawError.includes("429") || rawError.includes("quota") || rawError.includes("RESOURCE_EXHAUSTED")) {
-                errorMessage = "Neural Bandwidth Saturated (Quota Limit). The logic core is cooling down. Please wait 60 seconds and try again. Switching to 'Stable Mode' (Flash Core) for next attempt.";
-            } else if (rawError.includes("JSON")) {
-                errorMessage = "Decoding Error. The matrix returned an unreadable response. Please simplify your input.";
+            if (!attachedImage) {
+                onQueryChange?.({ from: sourceLanguage, to: targetLanguage, ...(sourceText.length <= MAX_LINKED_TEXT && { text: sourceText }) });
             }
-            
-            setError(errorMessage);
+        } catch (err) {
+            // The Translator interface is English; the languages being translated say nothing about the reader
+            setError(describeAIError(err));
         } finally {
             setIsLoading(false);
         }
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { SubscriptionTier, UserRole } from '../types';
+import { assignableRoles, can, ROLE_LABELS } from '../services/permissions';
+import { deleteUser, grantTier, listUsers, ManagedUser, setUserRole } from '../services/userManagement';
+import { mintCodes } from '../services/subscriptionCodes';
+import { CopyButton } from './Shared';
+
+const GRANT_DAYS = 30;
+const MINT_BATCH_MAX = 100;
+
+/** Signs a batch of single-use codes on the server; they are shown once and can be copied or saved as a file. */
+const CodeMintCard: React.FC = () => {
+    const [tier, setTier] = useState<'study' | 'pro'>('study');
+    const [days, setDays] = useState(30);
+    const [count, setCount] = useState(10);
+    const [codes, setCodes] = useState<string[]>([]);
+    const [isMinting, setIsMinting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleMint = async () => {
+        setError('');
+        setIsMinting(true);
+        try {
+            setCodes(await mintCodes(tier, days, count));
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setIsMinting(false);
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `signify_codes_${tier}_${days}d_${new Date().toISOString().split('T')[0]}.txt`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="bg-slate-800/80 p-6 rounded-lg border border-cm-border">
+            <h2 className="text-xl font-bold mb-4 flex items-center gap-2"><Icons.Award className="h-6 w-6 text-cm-primary" /> Subscription Codes</h2>
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+                <label className="text-xs uppercase text-cm-text-dim flex flex-col gap-1">
+                    Tier
+                    <select value={tier} onChange={e => setTier(e.target.value as 'study' | 'pro')} className="px-2 py-1 rounded-md bg-cm-surface border border-cm-border text-sm">
+                        <option value="study">Study</option>
+                        <option value="pro">Pro</option>
+                    </select>
+                </label>
+                <label className="text-xs uppercase text-cm-text-dim flex flex-col gap-1">
+                    Days
+                    <input type="number" min={1} max={366} value={days} onChange={e => setDays(Number(e.target.value))} className="w-24 px-2 py-1 rounded-md bg-cm-surface border border-cm-border text-sm" />
+                </label>
+                <label className="text-xs uppercase text-cm-text-dim flex flex-col gap-1">
+                    Count
+                    <input type="number" min={1} max={MINT_BATCH_MAX} value={count} onChange={e => setCount(Number(e.target.value))} className="w-24 px-2 py-1 rounded-md bg-cm-surface border border-cm-border text-sm" />
+                </label>
+                <button onClick={handleMint} disabled={isMinting} className="px-4 py-2 rounded-md bg-cm-primary text-white text-sm uppercase disabled:opacity-50">
+                    {isMinting ? 'Minting...' : 'Mint Codes'}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+            {codes.length > 0 && (
+                <>
+                    <div className="flex items-center gap-2 mb-2 text-xs text-cm-text-dim">
+                        {codes.length} codes · {tier.toUpperCase()} · {days} days. They are not stored anywhere else, so save them now.
+                        <CopyButton textToCopy={codes.join('\n')} />
+                        <button onClick={handleDownload} className="p-2 rounded-md hover:bg-cm-surface"><Icons.Download className="h-4 w-4" /></button>
+                    </div>
+                    <textarea readOnly value={codes.join('\n')} rows={Math.min(codes.length, 8)} className="w-full px-3 py-2 rounded-md bg-cm-surface border border-cm-border font-mono text-xs" />
+                </>
+            )}
+        </div>
+    );
+};
+
+export const UserManagementPage: React.FC<{ role: UserRole | null; currentUserEmail: string | null }> = ({ role, currentUserEmail }) => {
+    const [users, setUsers] = useState<ManagedUser[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+
+    const manageableRoles = assignableRoles(role);
+    const canDelete = can(role, 'users.delete');
+    const canGrant = can(role, 'tiers.grant');
+    const canMint = can(role, 'codes.mint');
+
+    useEffect(() => {
+        listUsers()
+            .then(setUsers)
+            .catch(e => setError(e.message))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const replaceUser = (updated: ManagedUser) => setUsers(prev => prev.map(u => u.email === updated.email ? updated : u));
+
+    const runAction = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const handleRoleChange = (user: ManagedUser, newRole: UserRole) => runAction(async () => {
+        replaceUser(await setUserRole(user.email, newRole));
+    });
+
+    const handleGrant = (user: ManagedUser, tier: SubscriptionTier) => runAction(async () => {
+        replaceUser(await grantTier(user.email, tier, GRANT_DAYS));
+    });
+
+    const handleDelete = (user: ManagedUser) => {
+        if (!window.confirm(`Delete the account for ${user.email}? They will be signed out and cannot sign in again.`)) return;
+        runAction(async () => {
+            await deleteUser(user.email);
+            setUsers(prev => prev.filter(u => u.email !== user.email));
+        });
+    };
+
+    /** Same rule as api/users.ts: only accounts below your own role, never yourself. */
+    const isManageable = (user: ManagedUser) => user.email !== currentUserEmail && manageableRoles.includes(user.role);
+
+    const filteredUsers = users.filter(user =>
+        user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        user.email.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+    return (
+        <div className="h-full overflow-y-auto custom-scrollbar p-4 md:p-8 font-commander">
+            <div className="max-w-7xl mx-auto space-y-6">
+                <h1 className="text-3xl font-bold tracking-wider">USER MANAGEMENT</h1>
+                {error && (
+                    <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm flex items-center gap-2">
+                        <Icons.AlertTriangle className="h-5 w-5" /> {error}
+                    </div>
+                )}
+                <div className="bg-slate-800/80 p-6 rounded-lg border border-cm-border">
+                    <h2 className="text-xl font-bold mb-4 flex items-center gap-2"><Icons.Users className="h-6 w-6 text-cm-primary" /> Accounts</h2>
+                    <input
+                        type="text"
+                        placeholder="Search by name or email..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full mb-4 px-3 py-2 rounded-md bg-cm-surface border border-cm-border focus:ring-cm-primary focus:border-cm-primary"
+                    />
+                    {isLoading ? (
+                        <p className="text-cm-text-dim">Loading accounts...</p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-[70vh]">
+                            <table className="w-full text-left text-sm">
+                                <thead className="sticky top-0 bg-slate-800">
+                                    <tr>
+                                        <th className="p-2">User</th>
+                                        <th className="p-2">Role</th>
+                                        <th className="p-2">Tier</th>
+                                        <th className="p-2">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-cm-border">
+                                    {filteredUsers.map(user => {
+                                        const manageable = isManageable(user);
+                                        const activeTier = user.subscription && user.subscription.expiry > Date.now() ? user.subscription : null;
+                                        return (
+                                            <tr key={user.email}>
+                                                <td className="p-2">
+                                                    <div>{user.name}</div>
+                                                    <div className="text-xs text-cm-text-dim truncate max-w-[220px]">{user.email}</div>
+                                                </td>
+                                                <td className="p-2">
+                                                    {manageable ? (
+                                                        <select
+                                                            value={user.role}
+                                                            onChange={e => handleRoleChange(user, e.target.value as UserRole)}
+                                                            className="px-2 py-1 rounded-md bg-cm-surface border border-cm-border"
+                                                        >
+                                                            {manageableRoles.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                                        </select>
+                                                    ) : ROLE_LABELS[user.role]}
+                                                </td>
+                                                <td className="p-2">
+                                                    {activeTier ? `${activeTier.tier.toUpperCase()} until ${new Date(activeTier.expiry).toLocaleDateString()}` : 'FREE'}
+                                                </td>
+                                                <td className="p-2">
+                                                    {manageable && (
+                                                        <div className="flex flex-wrap gap-2">
+                                                            {canGrant && (['study', 'pro'] as SubscriptionTier[]).map(tier => (
+                                                                <button key={tier} onClick={() => handleGrant(user, tier)} className="px-2 py-1 rounded-md bg-cm-surface border border-cm-border hover:border-cm-primary text-xs uppercase">
+                                                                    +{GRANT_DAYS}d {tier}
+                                                                </button>
+                                                            ))}
+                                                            {canGrant && activeTier && (
+                                                                <button onClick={() => handleGrant(user, 'free')} className="px-2 py-1 rounded-md bg-cm-surface border border-cm-border hover:border-cm-primary text-xs uppercase">Revoke</button>
+                                                            )}
+                                                            {canDelete && (
+                                                                <button onClick={() => handleDelete(user)} className="px-2 py-1 rounded-md bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white text-xs uppercase">
+                                                                    <Icons.Trash className="h-4 w-4" />
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+                {canMint && <CodeMintCard />}
+            </div>
+        </div>
+    );
+};
@@ -2,9 +2,12 @@ import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Icons } from './Icons';
 import { LoadingSpinner, Dropdown, CopyButton } from './Shared';
 import { PageProps, VaultFile, VaultTask, Message } from '../types';
-import { streamVaultChatResponse, analyzeVaultFile, getGlobalVaultContext } from '../services/geminiService';
+import { streamVaultChatResponse, analyzeVaultFile } from '../services/geminiService';
+import { describeAIError } from '../services/aiErrors';
 import { INJECTED_STORIES } from '../services/injectedKnowledge';
 import { ChatMessage } from './Chat';
+import { loadVault, ownerKey, saveVault } from '../services/repository';
+import { capacityReachedMessage, remainingCapacity, requestUpgrade } from '../services/entitlements';
 
 export const NeuralVaultPage: React.FC<PageProps> = ({ isOnline, currentUserEmail, userProfileNotes }) => {
     const [files, setFiles] = useState<VaultFile[]>([]);
@@ -18,27 +21,40 @@ export const NeuralVaultPage: React.FC<PageProps> = ({ isOnline, currentUserEmai
     
     const fileInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
-    const storageKey = useMemo(() => `signify_vault_${(currentUserEmail || 'global').replace(/[@.]/g, '_')}`, [currentUserEmail]);
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Nothing is written back until the stored vault has loaded, or the empty initial state would overwrite it
+    const [loadedFor, setLoadedFor] = useState<string | null>(null);
 
     useEffect(() => {
-        const saved = localStorage.getItem(storageKey);
-        if (saved) {
-            const parsed = JSON.parse(saved);
-            setFiles(parsed.files || []);
-            setTasks(parsed.tasks || []);
-            setMessages(parsed.messages || []);
-        }
-    }, [storageKey]);
+        let cancelled = false;
+        loadVault(currentUserEmail).then(vault => {
+            if (cancelled) return;
+            setFiles(vault.files);
+            setTasks(vault.tasks);
+            setMessages(vault.messages);
+            setLoadedFor(ownerKey(currentUserEmail));
+        }).catch(e => console.error("Failed to load vault:", e));
+        return () => { cancelled = true; };
+    }, [currentUserEmail]);
 
     useEffect(() => {
-        localStorage.setItem(storageKey, JSON.stringify({ files, tasks, messages }));
+        if (loadedFor === ownerKey(currentUserEmail)) saveVault(currentUserEmail, { files, tasks, messages });
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [files, tasks, messages]);
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const uploadedFiles = Array.from(e.target.files || []) as File[];
-        uploadedFiles.forEach(file => {
+        let spaceLeft = remainingCapacity('vaultBytes', files.reduce((total, f) => total + f.size, 0));
+        const accepted = uploadedFiles.filter(file => {
+            if (file.size > spaceLeft) return false;
+            spaceLeft -= file.size;
+            return true;
+        });
+        if (accepted.length < uploadedFiles.length) requestUpgrade(capacityReachedMessage('vaultBytes'));
+        accepted.forEach(file => {
             const reader = new FileReader();
             reader.onload = async (event) => {
                 const content = event.target?.result as string;
@@ -82,18 +98,28 @@ export const NeuralVaultPage: React.FC<PageProps> = ({ isOnline, currentUserEmai
         const currentInput = chatInput;
         setChatInput('');
         setIsLoading(true);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
-            const stream = streamVaultChatResponse(currentInput, messages, 'English', files, currentUserEmail, userProfileNotes);
+            const stream = streamVaultChatResponse(currentInput, messages, 'English', files, currentUserEmail, userProfileNotes, controller.signal);
             let acc = "";
             for await (const chunk of stream) {
+                if (chunk.error) throw chunk.error;
+                if (chunk.model || chunk.usage) {
+                    const { model, usage } = chunk;
+                    setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, ...(model && { model }), ...(usage && { usage }) } : m));
+                }
                 if (chunk.text) {
                     acc += chunk.text;
                     setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: acc } : m));
                 }
             }
+            if (controller.signal.aborted) {
+                setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, interrupted: true } : m));
+            }
         } catch (e) {
-            setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: "Vault core unreachable. Using Stable Mode for next attempt." } : m));
+            setMessages(prev => prev.map(m => m.id === botMsg.id ? { ...m, text: describeAIError(e) } : m));
         } finally {
             setIsLoading(false);
         }
@@ -203,9 +229,15 @@ export const NeuralVaultPage: React.FC<PageProps> = ({ isOnline, currentUserEmai
                             className="w-full pl-8 pr-20 py-5 bg-slate-950 border-2 border-slate-800 focus:border-cyan-500 rounded-[32px] outline-none transition-all font-bold text-lg placeholder:text-slate-700"
                             rows={1}
                         />
-                        <button type="submit" disabled={!chatInput.trim() || isLoading} className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-cyan-600 text-white rounded-2xl shadow-2xl hover:bg-cyan-500 active:scale-95 disabled:opacity-50 transition-all">
-                            <Icons.Send className="h-6 w-6" />
-                        </button>
+                        {isLoading ? (
+                            <button type="button" onClick={() => abortRef.current?.abort()} title="Stop Generation" className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-red-500 text-white rounded-2xl shadow-2xl hover:bg-red-400 active:scale-95 transition-all">
+                                <Icons.Stop className="h-6 w-6" />
+                            </button>
+                        ) : (
+                            <button type="submit" disabled={!chatInput.trim()} className="absolute right-3 top-1/2 -translate-y-1/2 p-4 bg-cyan-600 text-white rounded-2xl shadow-2xl hover:bg-cyan-500 active:scale-95 disabled:opacity-50 transition-all">
+                                <Icons.Send className="h-6 w-6" />
+                            </button>
+                        )}
                     </form>
                 </div>
             </div>
@@ -0,0 +1,133 @@
+/**
+ * AI ERROR TAXONOMY
+ * Every failure from a provider is normalised into an AIError with a stable code,
+ * so callers branch on `code` and render copy from AI_ERROR_MESSAGES instead of
+ * searching raw SDK messages.
+ */
+export type AIErrorCode =
+    | 'quota'
+    | 'auth'
+    | 'model-unavailable'
+    | 'safety-blocked'
+    | 'network'
+    | 'malformed-json'
+    | 'timeout'
+    | 'aborted'
+    | 'limit-reached'
+    | 'unknown';
+
+const AI_ERROR_CODES: AIErrorCode[] = ['quota', 'auth', 'model-unavailable', 'safety-blocked', 'network', 'malformed-json', 'timeout', 'aborted', 'limit-reached', 'unknown'];
+
+/** Codes worth retrying with backoff; the rest fail the same way every time. */
+const RETRYABLE_CODES: AIErrorCode[] = ['quota', 'network', 'timeout'];
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+export class AIError extends Error {
+    readonly code: AIErrorCode;
+    readonly status?: number;
+    readonly retryAfterMs?: number;
+
+    constructor(code: AIErrorCode, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AIError';
+        this.code = code;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_CODES.includes(this.code);
+    }
+}
+
+export function isAIErrorCode(value: unknown): value is AIErrorCode {
+    return typeof value === 'string' && (AI_ERROR_CODES as string[]).includes(value);
+}
+
+function classify(status: number | undefined, name: string, msg: string): AIErrorCode {
+    if (name === 'AbortError') return 'aborted';
+    if (name === 'SyntaxError') return 'malformed-json';
+    if (status === 429 || msg.includes('429') || msg.includes('quota') || msg.includes('resource_exhausted') || msg.includes('exhausted')) return 'quota';
+    if (status === 404 || (msg.includes('model') && (msg.includes('not found') || msg.includes('permission') || msg.includes('not supported')))) return 'model-unavailable';
+    if (status === 401 || status === 403 || msg.includes('api key') || msg.includes('unauthenticated') || msg.includes('permission_denied')) return 'auth';
+    if (msg.includes('safety') || msg.includes('blocked')) return 'safety-blocked';
+    if (name === 'TimeoutError' || status === 504 || msg.includes('deadline') || msg.includes('timed out') || msg.includes('timeout')) return 'timeout';
+    if (msg.includes('json')) return 'malformed-json';
+    if ((status !== undefined && status >= 500) || msg.includes('fetch') || msg.includes('network') || msg.includes('503')) return 'network';
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network';
+    return 'unknown';
+}
+
+/** Wraps anything thrown by an SDK, fetch or JSON.parse into an AIError. */
+export function toAIError(err: unknown): AIError {
+    if (err instanceof AIError) return err;
+    const e: any = err;
+    const message = e?.message || String(err);
+    const status = typeof e?.status === 'number' ? e.status : undefined;
+    return new AIError(classify(status, e?.name || '', message.toLowerCase()), message, {
+        status,
+        retryAfterMs: e?.retryAfterMs,
+        cause: err
+    });
+}
+
+/** Gemini reports blocked prompts and responses in the payload rather than by throwing. */
+export function blockedResponseError(response: any): AIError | null {
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    const reason = response?.promptFeedback?.blockReason || (SAFETY_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+    return reason ? new AIError('safety-blocked', `Response blocked by safety filters (${reason}).`) : null;
+}
+
+export function parseJSONResponse<T>(text: string): T {
+    try {
+        return JSON.parse(text);
+    } catch (err) {
+        throw new AIError('malformed-json', 'The model returned a response that is not valid JSON.', { cause: err });
+    }
+}
+
+export const AI_ERROR_MESSAGES: Record<string, Record<AIErrorCode, string>> = {
+    English: {
+        'quota': "Neural Bandwidth Saturated: The AI quota has been reached. Please wait a minute and try again.",
+        'auth': "Security Error: The logic core API key is missing or was rejected. Check environment configuration.",
+        'model-unavailable': "Compatibility Error: The selected model is not available with your current API key permissions.",
+        'safety-blocked': "Response Withheld: The request was blocked by safety filters. Please rephrase and try again.",
+        'network': "Transmission Interrupted: The logic core could not be reached. Check your connection and try again.",
+        'malformed-json': "Decoding Error: The matrix returned an unreadable response. Please simplify your input.",
+        'timeout': "Signal Timeout: The logic core took too long to respond. Please try again.",
+        'aborted': "Transmission Halted: Generation was stopped before it finished.",
+        'limit-reached': "Plan Limit Reached: Today's allowance on your plan is used up. Upgrade or try again tomorrow.",
+        'unknown': "Handshake Failure: An unexpected error occurred. Please try again."
+    },
+    Urdu: {
+        'quota': "AI کوٹہ ختم ہو گیا ہے۔ براہ کرم ایک منٹ انتظار کریں اور دوبارہ کوشش کریں۔",
+        'auth': "سیکیورٹی کی خرابی: API کلید موجود نہیں یا مسترد کر دی گئی۔ ماحول کی ترتیبات چیک کریں۔",
+        'model-unavailable': "منتخب ماڈل آپ کی موجودہ API کلید کے لیے دستیاب نہیں ہے۔",
+        'safety-blocked': "درخواست حفاظتی فلٹرز نے روک دی۔ براہ کرم الفاظ بدل کر دوبارہ کوشش کریں۔",
+        'network': "رابطہ منقطع ہو گیا۔ اپنا کنکشن چیک کریں اور دوبارہ کوشش کریں۔",
+        'malformed-json': "جواب پڑھا نہیں جا سکا۔ براہ کرم اپنا ان پٹ آسان کریں۔",
+        'timeout': "جواب آنے میں بہت دیر ہو گئی۔ براہ کرم دوبارہ کوشش کریں۔",
+        'aborted': "جواب مکمل ہونے سے پہلے روک دیا گیا۔",
+        'limit-reached': "آپ کے پلان کی آج کی حد پوری ہو گئی ہے۔ اپ گریڈ کریں یا کل دوبارہ کوشش کریں۔",
+        'unknown': "ایک غیر متوقع خرابی پیش آئی۔ براہ کرم دوبارہ کوشش کریں۔"
+    },
+    Sindhi: {
+        'quota': "AI ڪوٽا پوري ٿي وئي آهي. مهرباني ڪري هڪ منٽ ترسو ۽ ٻيهر ڪوشش ڪريو.",
+        'auth': "سيڪيورٽي جي خرابي: API ڪنجي موجود ناهي يا رد ڪئي وئي. ماحول جون سيٽنگون چيڪ ڪريو.",
+        'model-unavailable': "چونڊيل ماڊل توهان جي موجوده API ڪنجي لاءِ دستياب ناهي.",
+        'safety-blocked': "درخواست حفاظتي فلٽرن روڪي ڇڏي. مهرباني ڪري لفظ بدلائي ٻيهر ڪوشش ڪريو.",
+        'network': "رابطو ٽٽي ويو. پنهنجو ڪنيڪشن چيڪ ڪريو ۽ ٻيهر ڪوشش ڪريو.",
+        'malformed-json': "جواب پڙهي نه سگهياسين. مهرباني ڪري پنهنجو ان پٽ سادو ڪريو.",
+        'timeout': "جواب اچڻ ۾ گهڻي دير ٿي. مهرباني ڪري ٻيهر ڪوشش ڪريو.",
+        'aborted': "جواب مڪمل ٿيڻ کان اڳ روڪيو ويو.",
+        'limit-reached': "توهان جي پلان جي اڄ جي حد پوري ٿي وئي آهي. اپ گريڊ ڪريو يا سڀاڻي ٻيهر ڪوشش ڪريو.",
+        'unknown': "اڻڄاتل خرابي پيش آئي. مهرباني ڪري ٻيهر ڪوشش ڪريو."
+    }
+};
+
+/** User-facing copy for an error, in the given UI language (falls back to English). */
+export function describeAIError(err: unknown, language: string = 'English'): string {
+    const { code } = toAIError(err);
+    return (AI_ERROR_MESSAGES[language] || AI_ERROR_MESSAGES.English)[code];
+}
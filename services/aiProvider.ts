@@ -0,0 +1,88 @@
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+import { proxyProvider } from './proxyProvider';
+
+/**
+ * MODEL PROVIDER LAYER
+ * Every AI call in the app goes through an AIProvider. Contents use the
+ * Gemini role/parts shape as the common wire format; adapters translate it.
+ */
+export interface AIPart {
+    text?: string;
+    inlineData?: { data: string; mimeType: string };
+}
+
+export interface AIContent {
+    role?: 'user' | 'model';
+    parts: AIPart[];
+}
+
+export interface AITextRequest {
+    model: string;
+    contents: string | AIContent[];
+    systemInstruction?: string;
+    /** 0-2; the model's own default when unset. */
+    temperature?: number;
+    /** Aborting rejects the pending call (or ends the stream) with an AbortError. */
+    signal?: AbortSignal;
+}
+
+export interface AIJSONRequest extends AITextRequest {
+    responseSchema?: any;
+}
+
+export interface AITTSRequest {
+    model: string;
+    text: string;
+    voice?: string;
+    speakers?: { speaker: string; voice: string }[];
+    signal?: AbortSignal;
+}
+
+export interface AIImageRequest {
+    model: string;
+    prompt: string;
+    aspectRatio?: string;
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    id: string;
+    generate(req: AITextRequest): Promise<string>;
+    stream(req: AITextRequest): AsyncGenerator<string>;
+    generateJSON<T = any>(req: AIJSONRequest): Promise<T | null>;
+    /** Returns base64 16-bit mono PCM at 24kHz. */
+    tts(req: AITTSRequest): Promise<string | undefined>;
+    /** Returns a data URL. */
+    image(req: AIImageRequest): Promise<string | undefined>;
+}
+
+const PROVIDERS: Record<string, AIProvider> = {
+    gemini: geminiProvider,
+    local: localProvider,
+    proxy: proxyProvider
+};
+
+/** AI_PROVIDER picks the backend; AI_TRANSPORT=proxy routes Gemini through api/proxy.ts. */
+function defaultProviderId(): string {
+    const id = process.env.AI_PROVIDER || 'gemini';
+    if (id === 'gemini' && process.env.AI_TRANSPORT === 'proxy') return 'proxy';
+    return id;
+}
+
+let activeProvider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+    if (!activeProvider) {
+        activeProvider = PROVIDERS[defaultProviderId()] || geminiProvider;
+    }
+    return activeProvider;
+}
+
+export function setAIProvider(provider: AIProvider | string) {
+    activeProvider = typeof provider === 'string' ? (PROVIDERS[provider] || geminiProvider) : provider;
+}
+
+export function registerAIProvider(provider: AIProvider) {
+    PROVIDERS[provider.id] = provider;
+}
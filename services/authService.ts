@@ -0,0 +1,111 @@
+import { SubscriptionTier, UserRole } from '../types';
+import { AUTH_SESSION_KEY } from '../utils/appUtils';
+
+/**
+ * AUTH CLIENT
+ * Signs in against the auth route (api/auth.ts) and keeps the signed session
+ * token in localStorage. The token is what the proxy and sync routes trust; the
+ * user object here is only a display copy of what the server signed.
+ */
+const AUTH_URL = process.env.AUTH_URL || '/api/auth';
+
+export interface AuthSession {
+    token: string;
+    expiresAt: number;
+    user: { name: string; email: string; role: UserRole; subscription?: { tier: SubscriptionTier; expiry: number } };
+}
+
+export class AuthError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'AuthError';
+        this.status = status;
+    }
+}
+
+/** JSON POST to an API route with the session token; errors carry the server's message. */
+export async function postWithSession<T = any>(url: string, body: Record<string, any>): Promise<T> {
+    let res: Response;
+    try {
+        res = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify(body)
+        });
+    } catch (e) {
+        throw new AuthError("Could not reach the server. Check your connection.");
+    }
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new AuthError(data.error || `Request failed (${res.status}).`, res.status);
+    return data;
+}
+
+async function callAuth(body: Record<string, any>, token?: string): Promise<AuthSession> {
+    let res: Response;
+    try {
+        res = await fetch(AUTH_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(token && { 'Authorization': `Bearer ${token}` }) },
+            body: JSON.stringify(body)
+        });
+    } catch (e) {
+        throw new AuthError("Could not reach the sign-in server. Check your connection.");
+    }
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new AuthError(data.error || `Sign-in failed (${res.status}).`, res.status);
+    return saveSession(data);
+}
+
+/** Stores a session issued by any route (sign-in, renewal, code redemption). */
+export function saveSession(session: AuthSession): AuthSession {
+    localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+    return session;
+}
+
+export function signIn(email: string, password: string): Promise<AuthSession> {
+    return callAuth({ action: 'login', email, password });
+}
+
+export function register(name: string, email: string, password: string): Promise<AuthSession> {
+    return callAuth({ action: 'register', name, email, password });
+}
+
+/** The stored session, or null once it has expired. */
+export function getSession(): AuthSession | null {
+    try {
+        const session: AuthSession | null = JSON.parse(localStorage.getItem(AUTH_SESSION_KEY) || 'null');
+        return session && session.expiresAt > Date.now() ? session : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+/**
+ * Renews the token and picks up role changes. A rejected token signs the user
+ * out (null); being offline keeps the current session.
+ */
+export async function refreshSession(): Promise<AuthSession | null> {
+    const session = getSession();
+    if (!session) return null;
+    try {
+        return await callAuth({ action: 'session' }, session.token);
+    } catch (e) {
+        if (e instanceof AuthError && e.status === 401) {
+            signOut();
+            return null;
+        }
+        return session;
+    }
+}
+
+export function signOut() {
+    localStorage.removeItem(AUTH_SESSION_KEY);
+}
+
+/** Authorization header for calls to the proxy and sync routes. */
+export function authHeaders(): Record<string, string> {
+    const session = getSession();
+    return session ? { 'Authorization': `Bearer ${session.token}` } : {};
+}
@@ -0,0 +1,192 @@
+import { exportRepository, restoreRepository, StoreName, RepositorySnapshot } from './repository';
+import { BackupDocument, SCHEMA_VERSION } from './dataMigrations';
+import { AUTH_SESSION_KEY, SYNC_DEVICE_KEY, SYNC_SETTINGS_KEY, SYNC_STATE_PREFIX } from '../utils/appUtils';
+
+/**
+ * UNIVERSAL BACKUP CORE
+ * A backup is every SigNify localStorage key plus the IndexedDB repository,
+ * stamped with the schema version. Reading goes through migrateBackup so older
+ * files are upgraded and validated before anything is written. Restores can be
+ * limited to categories and either merge with or replace what is on the device.
+ */
+const APP_VERSION = '3.2';
+const PREFIX_FILTERS = ['sike', 'signify', 'sindhi']; // Capture all variant keys
+const LINGUISTIC_TRAINING_LIMIT = 1000;
+
+/**
+ * Keys that describe this device rather than the user's data. Restoring sync state
+ * would push the restored records as deletions, and a copied device id breaks the
+ * sync tie-break. The session holds a bearer token that must not be written to a
+ * file or swapped for another account's. These never leave the device or get
+ * overwritten by a restore.
+ */
+const DEVICE_ONLY_KEYS = [SYNC_DEVICE_KEY, SYNC_SETTINGS_KEY, AUTH_SESSION_KEY];
+const DEVICE_ONLY_PREFIXES = [SYNC_STATE_PREFIX];
+
+const isDeviceOnlyKey = (key: string) => DEVICE_ONLY_KEYS.includes(key) || DEVICE_ONLY_PREFIXES.some(prefix => key.startsWith(prefix));
+
+export type RestoreCategory = 'conversations' | 'creative' | 'vault' | 'exams' | 'rules' | 'saved' | 'settings';
+export type RestoreMode = 'merge' | 'replace';
+
+export const RESTORE_CATEGORIES: { id: RestoreCategory; label: string; stores: StoreName[] }[] = [
+    { id: 'conversations', label: 'Neural Chat Conversations', stores: ['conversations'] },
+    { id: 'creative', label: 'Creative Studio & Notebook Chats', stores: ['chatThreads'] },
+    { id: 'vault', label: 'Neural Vault Files', stores: ['vault'] },
+    { id: 'exams', label: 'Exam Reports', stores: ['examHistory', 'examSessions'] },
+    { id: 'rules', label: 'Linguistic Rules & Memory', stores: ['linguistic'] },
+    { id: 'saved', label: 'Saved Messages', stores: ['savedMessages'] },
+    { id: 'settings', label: 'Profiles, Notes & Settings', stores: [] }
+];
+
+export interface RestorePreviewItem {
+    category: RestoreCategory;
+    label: string;
+    count: number;
+    /** Human-readable names of what would be imported (titles, file names, triggers). */
+    items: string[];
+}
+
+function appStorageKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && !isDeviceOnlyKey(key) && PREFIX_FILTERS.some(pref => key.toLowerCase().includes(pref))) keys.push(key);
+    }
+    return keys;
+}
+
+export async function createBackup(): Promise<BackupDocument> {
+    const bundle: Record<string, string> = {};
+    appStorageKeys().forEach(key => { bundle[key] = localStorage.getItem(key) || ''; });
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        appVersion: APP_VERSION,
+        timestamp: Date.now(),
+        bundle,
+        repository: await exportRepository()
+    };
+}
+
+// --- PREVIEW ---
+
+function previewItems(category: RestoreCategory, backup: BackupDocument): string[] {
+    const records = (store: StoreName): any[] => backup.repository[store] || [];
+    switch (category) {
+        case 'conversations':
+            return records('conversations').map(c => c.title);
+        case 'creative':
+            return records('chatThreads').map(t => `${t.thread} (${t.messages.length} messages)`);
+        case 'vault':
+            return records('vault').flatMap(v => v.files.map((f: any) => f.name));
+        case 'exams':
+            return records('examHistory').map(r => `${r.examSetup?.subject || 'Exam'} • ${r.results.grade || `${r.results.percentage}%`} • ${new Date(r.savedAt).toLocaleDateString()}`);
+        case 'rules': {
+            const rules = records('linguistic').find(r => r.kind === 'rules')?.entries || [];
+            const training = records('linguistic').find(r => r.kind === 'training')?.entries || [];
+            return [...rules.map((r: any) => `"${r.trigger}" → "${r.response}"`), ...(training.length ? [`${training.length} learned phrases`] : [])];
+        }
+        case 'saved':
+            return records('savedMessages').map(m => m.text.length > 60 ? `${m.text.slice(0, 60)}…` : m.text);
+        case 'settings':
+            return Object.keys(backup.bundle).filter(key => !isDeviceOnlyKey(key));
+    }
+}
+
+/** What each category of the backup holds; empty categories are left out. */
+export function previewBackup(backup: BackupDocument): RestorePreviewItem[] {
+    return RESTORE_CATEGORIES
+        .map(({ id, label }) => {
+            const items = previewItems(id, backup);
+            return { category: id, label, count: items.length, items };
+        })
+        .filter(p => p.count > 0);
+}
+
+// --- MERGE ---
+
+const RECORD_KEYS: Record<StoreName, (r: any) => string> = {
+    conversations: r => `${r.owner}|${r.id}`,
+    chatThreads: r => `${r.owner}|${r.thread}`,
+    savedMessages: r => `${r.owner}|${r.id}`,
+    vault: r => r.owner,
+    examHistory: r => r.id,
+    examSessions: r => r.rollNo,
+    linguistic: r => r.kind
+};
+
+/** Union of two lists by `key`; on a clash the incoming item wins only if `prefer` says so. */
+function mergeBy<T>(current: T[], incoming: T[], key: (item: T) => string, prefer: (incoming: T, current: T) => boolean = () => false): T[] {
+    const merged = new Map(current.map(item => [key(item), item]));
+    incoming.forEach(item => {
+        const existing = merged.get(key(item));
+        if (!existing || prefer(item, existing)) merged.set(key(item), item);
+    });
+    return Array.from(merged.values());
+}
+
+const byId = (item: any) => String(item.id);
+const newer = (field: string) => (a: any, b: any) => (a[field] || 0) > (b[field] || 0);
+const byMessageOrder = (a: any, b: any) => Number(a.id) - Number(b.id);
+
+/** Resolves two records with the same key; collections inside them are merged item by item. */
+function mergeRecord(store: StoreName, current: any, incoming: any): any {
+    switch (store) {
+        case 'conversations':
+            return newer('lastUpdated')(incoming, current) ? incoming : current;
+        case 'savedMessages':
+        case 'examHistory':
+            return newer('savedAt')(incoming, current) ? incoming : current;
+        case 'chatThreads':
+            return { ...current, messages: mergeBy(current.messages, incoming.messages, byId).sort(byMessageOrder) };
+        case 'vault':
+            return {
+                ...current,
+                files: mergeBy(current.files, incoming.files, byId, newer('uploadedAt')),
+                tasks: mergeBy(current.tasks, incoming.tasks, byId),
+                messages: mergeBy(current.messages, incoming.messages, byId).sort(byMessageOrder)
+            };
+        case 'linguistic':
+            return current.kind === 'rules'
+                ? { ...current, entries: mergeBy(current.entries, incoming.entries, byId) }
+                : { ...current, entries: Array.from(new Set([...current.entries, ...incoming.entries])).slice(-LINGUISTIC_TRAINING_LIMIT) };
+        default:
+            // In-progress exam sessions on this device are kept over older copies
+            return current;
+    }
+}
+
+function mergeStore(store: StoreName, current: any[], incoming: any[]): any[] {
+    const key = RECORD_KEYS[store];
+    const merged = new Map(current.map(r => [key(r), r]));
+    incoming.forEach(r => {
+        const existing = merged.get(key(r));
+        merged.set(key(r), existing ? mergeRecord(store, existing, r) : r);
+    });
+    return Array.from(merged.values());
+}
+
+// --- RESTORE ---
+
+/**
+ * Imports the chosen categories. `replace` wipes each chosen category first;
+ * `merge` dedupes by id and keeps the newer copy (lastUpdated / savedAt).
+ */
+export async function restoreBackup(backup: BackupDocument, categories: RestoreCategory[], mode: RestoreMode): Promise<void> {
+    const stores = RESTORE_CATEGORIES.filter(c => categories.includes(c.id)).flatMap(c => c.stores);
+
+    let snapshot: RepositorySnapshot = backup.repository;
+    if (mode === 'merge') {
+        const current = await exportRepository();
+        snapshot = {};
+        stores.forEach(store => { snapshot[store] = mergeStore(store, current[store] || [], backup.repository[store] || []); });
+    }
+    await restoreRepository(snapshot, stores);
+
+    if (categories.includes('settings')) {
+        // Clear existing app data first to prevent key collision; merging keeps local keys
+        if (mode === 'replace') appStorageKeys().forEach(k => localStorage.removeItem(k));
+        Object.keys(backup.bundle).filter(key => !isDeviceOnlyKey(key)).forEach(key => {
+            if (mode === 'replace' || localStorage.getItem(key) === null) localStorage.setItem(key, backup.bundle[key]);
+        });
+    }
+}
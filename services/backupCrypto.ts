@@ -0,0 +1,90 @@
+/**
+ * BACKUP ENCRYPTION
+ * Optional passphrase protection for master backups. The passphrase is
+ * stretched with PBKDF2 and the backup JSON sealed with AES-GCM; salt, IV and
+ * KDF parameters travel in a versioned envelope so plain and encrypted files
+ * can be told apart on import and older envelopes stay readable.
+ */
+export const ENCRYPTED_BACKUP_FORMAT = 'signify-encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310000;
+/** Iteration counts a file may ask for; more than this would freeze the tab for minutes. */
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 2000000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackupEnvelope {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    /** Base64 ciphertext of the backup JSON, including the GCM auth tag. */
+    data: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export function isEncryptedBackup(raw: unknown): raw is EncryptedBackupEnvelope {
+    return !!raw && typeof raw === 'object' && (raw as EncryptedBackupEnvelope).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export async function encryptBackup(json: string, passphrase: string): Promise<EncryptedBackupEnvelope> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+    return {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        version: ENCRYPTED_BACKUP_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext))
+    };
+}
+
+/** Returns the backup JSON text. Throws a readable error for a wrong passphrase or unknown envelope. */
+export async function decryptBackup(envelope: EncryptedBackupEnvelope, passphrase: string): Promise<string> {
+    if (typeof envelope.version !== 'number' || envelope.version > ENCRYPTED_BACKUP_VERSION) {
+        throw new Error(`This encrypted backup uses format v${envelope.version}, which this version of SigNify cannot read. Please update the app.`);
+    }
+    if (envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+        throw new Error("Unsupported encryption settings in backup file.");
+    }
+    const { iterations } = envelope.kdf;
+    if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+        throw new Error("Unsupported encryption settings in backup file.");
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+        const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), iterations);
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    } catch {
+        throw new Error("Incorrect passphrase, or the backup file is damaged.");
+    }
+    return new TextDecoder().decode(plaintext);
+}
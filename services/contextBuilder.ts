@@ -0,0 +1,137 @@
+import { Message, TokenUsage, ContextSummary } from '../types';
+import { AIContent } from './aiProvider';
+
+/**
+ * CONTEXT BUDGET PROTOCOL
+ * Estimates tokens and fits chat history into a per-model input budget. Turns are
+ * kept newest-first; older turns are dropped, or replaced by the conversation's
+ * rolling summary when the caller supplies one. Estimates are heuristic (no
+ * tokenizer ships in the bundle), so treat costs as approximate.
+ */
+export interface ModelBudget {
+    /** Maximum input tokens we are willing to send, well under the model window. */
+    inputTokens: number;
+    /** USD per million tokens. */
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+const DEFAULT_BUDGET: ModelBudget = { inputTokens: 32000, inputPerMillion: 0.3, outputPerMillion: 2.5 };
+
+export const MODEL_BUDGETS: Record<string, ModelBudget> = {
+    'gemini-flash-latest': DEFAULT_BUDGET,
+    'gemini-2.5-flash': DEFAULT_BUDGET,
+    'gemini-2.5-pro': { inputTokens: 64000, inputPerMillion: 1.25, outputPerMillion: 10 },
+    'gemini-3-pro-preview': { inputTokens: 64000, inputPerMillion: 2, outputPerMillion: 12 }
+};
+
+/** Flat per-image charge used by Gemini for inline images up to 384px a side. */
+const IMAGE_TOKENS = 258;
+
+export function getModelBudget(model: string): ModelBudget {
+    return MODEL_BUDGETS[model] || DEFAULT_BUDGET;
+}
+
+/** ~4 chars per token for Latin script; Urdu, Sindhi and other non-ASCII text tokenizes denser. */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+    let ascii = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 128) ascii++;
+    }
+    return Math.ceil(ascii / 4 + (text.length - ascii) / 2);
+}
+
+function estimateMessageTokens(m: Message): number {
+    return estimateTokens(m.text) + 4;
+}
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const budget = getModelBudget(model);
+    return (inputTokens * budget.inputPerMillion + outputTokens * budget.outputPerMillion) / 1e6;
+}
+
+/** Trims free-form context (vault previews, notebook sources) to a token allowance. */
+export function clampToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+    let lo = 0, hi = text.length;
+    while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (estimateTokens(text.slice(0, mid)) <= maxTokens) lo = mid; else hi = mid - 1;
+    }
+    return text.slice(0, lo) + "\n[...truncated to fit context budget]";
+}
+
+export interface ChatContext {
+    contents: AIContent[];
+    systemInstruction: string;
+    inputTokens: number;
+    /** Messages after the summary that were left out; they directly precede the kept ones. */
+    droppedTurns: number;
+}
+
+/**
+ * Builds the request contents for one chat turn. Messages already covered by
+ * `summary` are skipped and the summary is appended to the system instruction;
+ * the rest are kept newest-first until the budget is spent.
+ */
+export function buildChatContext(opts: {
+    model: string;
+    systemInstruction: string;
+    history: Message[];
+    prompt: AIContent['parts'];
+    summary?: ContextSummary;
+}): ChatContext {
+    const budget = getModelBudget(opts.model).inputTokens;
+    const summary = opts.summary && opts.summary.text ? opts.summary : undefined;
+    const systemInstruction = summary
+        ? `${opts.systemInstruction}\n[EARLIER CONVERSATION SUMMARY]\n${summary.text}`
+        : opts.systemInstruction;
+
+    const promptTokens = opts.prompt.reduce((n, p) => n + (p.text ? estimateTokens(p.text) : IMAGE_TOKENS), 0);
+    let used = estimateTokens(systemInstruction) + promptTokens;
+
+    const start = summary ? Math.min(summary.coveredMessages, opts.history.length) : 0;
+    const kept: Message[] = [];
+    let firstKept = start;
+    for (let i = opts.history.length - 1; i >= start; i--) {
+        const m = opts.history[i];
+        if (!m.text || m.text.trim().length === 0) continue;
+        const cost = estimateMessageTokens(m);
+        if (used + cost > budget) {
+            firstKept = i + 1;
+            break;
+        }
+        used += cost;
+        kept.unshift(m);
+    }
+
+    const contents: AIContent[] = kept.map(m => ({ role: m.sender === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
+    contents.push({ role: 'user', parts: opts.prompt });
+
+    return {
+        contents,
+        systemInstruction,
+        inputTokens: used,
+        droppedTurns: firstKept - start
+    };
+}
+
+export function buildUsage(model: string, context: ChatContext, replyText: string): TokenUsage {
+    const outputTokens = estimateTokens(replyText);
+    return {
+        model,
+        inputTokens: context.inputTokens,
+        outputTokens,
+        costUsd: estimateCost(model, context.inputTokens, outputTokens),
+        droppedTurns: context.droppedTurns
+    };
+}
+
+/** "1.2k tokens · $0.0004" */
+export function formatUsage(usage: TokenUsage): string {
+    const total = usage.inputTokens + usage.outputTokens;
+    const tokens = total >= 1000 ? `${(total / 1000).toFixed(1)}k` : String(total);
+    const cost = usage.costUsd < 0.0001 ? '<$0.0001' : `$${usage.costUsd.toFixed(4)}`;
+    return `~${tokens} tokens · ${cost}`;
+}
@@ -0,0 +1,257 @@
+import { Message } from '../types';
+import { MODEL_LABELS } from './modelRouting';
+
+/**
+ * TRANSCRIPT EXPORT
+ * Turns a chat transcript (the AIChat branch on screen, or the notebook chat) into
+ * Markdown, a self-contained HTML page or a print layout for "Save as PDF". The
+ * HTML inlines its styles and the `imageUrls` data URLs, so the single file can be
+ * shared and opened anywhere. `[Source: name]` markers become citation chips and
+ * grounding `sources` are listed under each reply. A bundle puts several
+ * conversations in one file for bulk export.
+ */
+export interface Transcript {
+    title: string;
+    /** Shown under the title, e.g. "AI Chat" or "Notebook Chat · 3 sources". */
+    origin: string;
+    messages: Message[];
+}
+
+/** Several transcripts in one file (bulk export); each becomes its own section. */
+export interface TranscriptBundle {
+    title: string;
+    transcripts: Transcript[];
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    markdown: 'Markdown (.md)',
+    html: 'Web page (.html)',
+    pdf: 'PDF (print)'
+};
+
+const CITATION_PATTERN = /\[Source:\s*([^\]]+)\]/g;
+const SIMULATION_PATTERN = /\/\/\/ SIMULATION_START[\s\S]*?\/\/\/ SIMULATION_END/g;
+const SIMULATION_NOTE = '*(Interactive simulation, open it in the Lab)*';
+
+const senderLabel = (m: Message) => m.sender === 'user' ? 'You' : 'SigNify';
+const modelLabel = (m: Message) => m.model ? (MODEL_LABELS[m.model] || m.model) : '';
+
+/** Replies that failed are left out; they carry no content worth keeping. */
+const exportable = (messages: Message[]) => messages.filter(m => m.text.trim() && !m.text.startsWith('/// SYSTEM ERROR:'));
+
+const fileSlug = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 60) || 'transcript';
+
+/** Browsers ignore control characters and spaces inside a scheme, so "java\tscript:" is caught too. */
+const isSafeUrl = (url: string) => !/^(javascript|vbscript):/i.test(url.replace(/[\u0000-\u0020]/g, ''));
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// --- MARKDOWN ---
+
+function messagesToMarkdown(messages: Message[]): string[] {
+    const lines: string[] = [];
+    exportable(messages).forEach(m => {
+        const model = modelLabel(m);
+        lines.push(`### ${senderLabel(m)}${model ? ` (${model})` : ''}`, '');
+        (m.imageUrls || []).filter(isSafeUrl).forEach((url, i) => lines.push(`![Image ${i + 1}](${url})`, ''));
+        lines.push(m.text.replace(SIMULATION_PATTERN, SIMULATION_NOTE).trim(), '');
+        if (m.sources?.length) {
+            lines.push('**Sources**', '');
+            m.sources.forEach((s, i) => lines.push(isSafeUrl(s.uri) ? `${i + 1}. [${s.title || s.uri}](${s.uri})` : `${i + 1}. ${s.title || s.uri}`));
+            lines.push('');
+        }
+    });
+    return lines;
+}
+
+export function transcriptToMarkdown(transcript: Transcript, exportedAt: Date = new Date()): string {
+    return [`# ${transcript.title}`, '', `*${transcript.origin} · exported ${exportedAt.toLocaleString()}*`, '', ...messagesToMarkdown(transcript.messages)].join('\n');
+}
+
+export function bundleToMarkdown(bundle: TranscriptBundle, exportedAt: Date = new Date()): string {
+    const lines = [`# ${bundle.title}`, '', `*${bundle.transcripts.length} conversations · exported ${exportedAt.toLocaleString()}*`, ''];
+    bundle.transcripts.forEach(t => lines.push('---', '', `## ${t.title}`, '', `*${t.origin}*`, '', ...messagesToMarkdown(t.messages)));
+    return lines.join('\n');
+}
+
+// --- HTML ---
+
+/** What marked emits for chat Markdown; anything else is reduced to its text. */
+const ALLOWED_TAGS = new Set([
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 'del', 's', 'sup', 'sub', 'code', 'pre', 'blockquote',
+    'ul', 'ol', 'li', 'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'span', 'div', 'input'
+]);
+/** Elements whose text is code or markup rather than content; dropped with everything inside. */
+const DROPPED_TAGS = new Set(['script', 'style', 'template', 'noscript', 'iframe', 'object', 'embed', 'textarea', 'select']);
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'class', 'align', 'start', 'type', 'checked', 'disabled', 'colspan', 'rowspan', 'dir', 'lang']);
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+/**
+ * Model output goes through marked, so it may contain raw HTML. A shared file should
+ * not run anything, so only an allow-list of tags and attributes survives, and the
+ * URL attributes among them must pass isSafeUrl.
+ */
+function sanitizeHtml(html: string): string {
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    doc.body.querySelectorAll('*').forEach(el => {
+        const tag = el.tagName.toLowerCase();
+        if (!ALLOWED_TAGS.has(tag) || (tag === 'input' && el.getAttribute('type') !== 'checkbox')) {
+            el.replaceWith(DROPPED_TAGS.has(tag) ? '' : doc.createTextNode(el.textContent || ''));
+            return;
+        }
+        Array.from(el.attributes).forEach(attr => {
+            const allowed = ALLOWED_ATTRIBUTES.has(attr.name) && (!URL_ATTRIBUTES.has(attr.name) || isSafeUrl(attr.value));
+            if (!allowed) el.removeAttribute(attr.name);
+        });
+    });
+    return doc.body.innerHTML;
+}
+
+function renderMessageBody(m: Message): string {
+    if (m.sender === 'user') return `<p>${escapeHtml(m.text).replace(/\n/g, '<br>')}</p>`;
+    const markdown = m.text
+        .replace(SIMULATION_PATTERN, SIMULATION_NOTE)
+        .replace(CITATION_PATTERN, (_, name: string) => `<span class="cite">${escapeHtml(name.trim())}</span>`);
+    return sanitizeHtml((window as any).marked.parse(markdown));
+}
+
+function renderMessage(m: Message): string {
+    const model = modelLabel(m);
+    const images = (m.imageUrls || []).filter(isSafeUrl).map(url => `<img src="${escapeHtml(url)}" alt="Attached image">`).join('');
+    const sources = m.sources?.length
+        ? `<ol class="sources">${m.sources.map(s => `<li>${isSafeUrl(s.uri) ? `<a href="${escapeHtml(s.uri)}" rel="noopener noreferrer">${escapeHtml(s.title || s.uri)}</a>` : escapeHtml(s.title || s.uri)}</li>`).join('')}</ol>`
+        : '';
+    return `<article class="message ${m.sender}">
+<header>${senderLabel(m)}${model ? ` <span class="model">${escapeHtml(model)}</span>` : ''}${m.interrupted ? ' <span class="model">stopped early</span>' : ''}</header>
+${images ? `<div class="images">${images}</div>` : ''}
+<div class="body" dir="auto">${renderMessageBody(m)}</div>
+${sources}
+</article>`;
+}
+
+const STYLES = `
+body { font-family: -apple-system, "Segoe UI", Roboto, "Noto Naskh Arabic", sans-serif; max-width: 820px; margin: 0 auto; padding: 32px 20px; color: #0f172a; background: #f8fafc; line-height: 1.6; }
+h1 { margin: 0; font-size: 28px; }
+h2 { margin: 24px 0 0; font-size: 20px; }
+.meta { color: #64748b; font-size: 13px; margin: 4px 0 32px; }
+.message { background: #fff; border: 1px solid #e2e8f0; border-radius: 18px; padding: 16px 20px; margin: 16px 0; }
+.message.user { background: #ecfeff; border-color: #a5f3fc; margin-left: 48px; }
+.message.bot { border-left: 5px solid #0891b2; margin-right: 48px; }
+.message header { font-size: 11px; font-weight: 800; text-transform: uppercase; letter-spacing: .12em; color: #0891b2; margin-bottom: 8px; }
+.model { color: #94a3b8; font-weight: 600; letter-spacing: .04em; }
+.images { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 8px; }
+.images img { max-width: 100%; max-height: 360px; border-radius: 12px; }
+.body pre { background: #0f172a; color: #e2e8f0; padding: 12px; border-radius: 10px; overflow-x: auto; }
+.body code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 13px; }
+.body table { border-collapse: collapse; } .body td, .body th { border: 1px solid #cbd5e1; padding: 4px 8px; }
+.cite { display: inline-block; padding: 0 6px; margin: 0 2px; border: 1px solid #a5f3fc; border-radius: 6px; background: #ecfeff; color: #0e7490; font-size: 11px; font-weight: 700; }
+.sources { font-size: 13px; color: #475569; border-top: 1px dashed #cbd5e1; margin: 12px 0 0; padding: 8px 0 0 20px; }
+.sources a { color: #0e7490; word-break: break-all; }
+.transcript + .transcript { border-top: 2px solid #e2e8f0; margin-top: 40px; padding-top: 8px; }
+footer { color: #94a3b8; font-size: 12px; text-align: center; margin-top: 40px; }
+@media print {
+  @page { margin: 16mm; }
+  body { background: #fff; max-width: none; padding: 0; font-size: 11pt; }
+  .message { break-inside: avoid; page-break-inside: avoid; border-radius: 8px; margin-left: 0; margin-right: 0; }
+  .message.user { background: #fff; }
+  .body pre { background: #f1f5f9; color: #0f172a; white-space: pre-wrap; }
+  .sources a::after { content: " (" attr(href) ")"; }
+  .transcript + .transcript { break-before: page; page-break-before: always; border: 0; margin: 0; }
+}`;
+
+const PRINT_SCRIPT = "window.addEventListener('load', () => window.print());";
+/** sha256 of PRINT_SCRIPT; recompute it whenever the script changes. */
+const PRINT_SCRIPT_HASH = 'sha256-pjfK1XbmGuveKjzA4wngCEW8G6kccODZfN9twXSYcEQ=';
+
+/**
+ * The page's own policy is a second line behind sanitizeHtml: no script runs except
+ * the print snippet, and nothing is fetched except images.
+ */
+const contentPolicy = (autoPrint: boolean) =>
+    `default-src 'none'; img-src * data: blob:; style-src 'unsafe-inline'; script-src ${autoPrint ? `'${PRINT_SCRIPT_HASH}'` : "'none'"}`;
+
+/** With `autoPrint` the page opens the print dialog as soon as it has loaded (the PDF route). */
+function htmlDocument(heading: string, meta: string, body: string, autoPrint: boolean): string {
+    const title = escapeHtml(heading);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${contentPolicy(autoPrint)}">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${escapeHtml(meta)}</p>
+${body}
+<footer>Exported from SigNify OS</footer>
+${autoPrint ? `<script>${PRINT_SCRIPT}</script>` : ''}
+</body>
+</html>`;
+}
+
+export function transcriptToHtml(transcript: Transcript, exportedAt: Date = new Date(), autoPrint: boolean = false): string {
+    const body = exportable(transcript.messages).map(renderMessage).join('\n');
+    return htmlDocument(transcript.title, `${transcript.origin} · exported ${exportedAt.toLocaleString()}`, body, autoPrint);
+}
+
+export function bundleToHtml(bundle: TranscriptBundle, exportedAt: Date = new Date(), autoPrint: boolean = false): string {
+    const body = bundle.transcripts.map(t => `<section class="transcript">
+<h2>${escapeHtml(t.title)}</h2>
+<p class="meta">${escapeHtml(t.origin)}</p>
+${exportable(t.messages).map(renderMessage).join('\n')}
+</section>`).join('\n');
+    return htmlDocument(bundle.title, `${bundle.transcripts.length} conversations · exported ${exportedAt.toLocaleString()}`, body, autoPrint);
+}
+
+// --- DELIVERY ---
+
+const PRINT_URL_LIFETIME_MS = 60000;
+
+function downloadFile(contents: string, type: string, filename: string) {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the document, or for `pdf` opens the print layout in a new window and
+ * starts the browser's print dialog ("Save as PDF"). The layout opens from a Blob
+ * URL as its own document, governed by its content policy, instead of being written
+ * into an about:blank window that shares this page's context. Throws when the
+ * window is blocked.
+ */
+function deliver(title: string, format: ExportFormat, markdown: () => string, html: (autoPrint: boolean) => string) {
+    const name = `signify_${fileSlug(title)}_${new Date().toISOString().slice(0, 10)}`;
+    if (format === 'markdown') {
+        downloadFile(markdown(), 'text/markdown', `${name}.md`);
+        return;
+    }
+    if (format === 'html') {
+        downloadFile(html(false), 'text/html', `${name}.html`);
+        return;
+    }
+    const url = URL.createObjectURL(new Blob([html(true)], { type: 'text/html' }));
+    const printWindow = window.open(url, '_blank');
+    // The new window needs the URL until it has loaded
+    setTimeout(() => URL.revokeObjectURL(url), PRINT_URL_LIFETIME_MS);
+    if (!printWindow) throw new Error("The print window was blocked. Allow pop-ups for this site and try again.");
+}
+
+export function exportTranscript(transcript: Transcript, format: ExportFormat) {
+    deliver(transcript.title, format, () => transcriptToMarkdown(transcript), autoPrint => transcriptToHtml(transcript, new Date(), autoPrint));
+}
+
+export function exportBundle(bundle: TranscriptBundle, format: ExportFormat) {
+    deliver(bundle.title, format, () => bundleToMarkdown(bundle), autoPrint => bundleToHtml(bundle, new Date(), autoPrint));
+}
@@ -0,0 +1,63 @@
+import { Conversation } from '../types';
+
+/**
+ * CONVERSATION ORGANIZER
+ * Folders, pins, tags and the archive all live on the Conversation record, so they
+ * are saved, backed up and synced with it. A folder is just a name: it exists while
+ * some conversation is filed under it. Changes stamp `organizedAt` rather than
+ * `lastUpdated`, so filing a chat keeps its place in the recency order.
+ */
+export type Organization = Pick<Conversation, 'folder' | 'pinned' | 'tags' | 'archived'>;
+
+/** Which part of the list is on screen. `folder` null means unfiled only; undefined means every folder. */
+export interface ConversationView {
+    archived: boolean;
+    folder?: string | null;
+    tag?: string;
+}
+
+export const MAX_TAGS = 12;
+const MAX_LABEL_LENGTH = 40;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase().slice(0, MAX_LABEL_LENGTH);
+
+/** "Exam prep, #physics" becomes ['exam prep', 'physics']. */
+export function parseTags(input: string): string[] {
+    return Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean))).slice(0, MAX_TAGS);
+}
+
+export const normalizeFolder = (name: string) => name.trim().replace(/\s+/g, ' ').slice(0, MAX_LABEL_LENGTH);
+
+/** Applies the changes and drops fields that went back to their defaults. */
+export function organize(conversation: Conversation, changes: Organization, now: number = Date.now()): Conversation {
+    const next: Conversation = { ...conversation, ...changes, organizedAt: now };
+    if (changes.folder !== undefined) next.folder = normalizeFolder(changes.folder) || undefined;
+    if (changes.tags !== undefined) next.tags = parseTags(changes.tags.join(','));
+    if (!next.folder) delete next.folder;
+    if (!next.tags?.length) delete next.tags;
+    if (!next.pinned) delete next.pinned;
+    if (!next.archived) delete next.archived;
+    return next;
+}
+
+export const addTags = (conversation: Conversation, tags: string[]) => organize(conversation, { tags: [...(conversation.tags || []), ...tags] });
+
+export function folderNames(conversations: Conversation[]): string[] {
+    return Array.from(new Set(conversations.map(c => c.folder).filter((f): f is string => !!f))).sort((a, b) => a.localeCompare(b));
+}
+
+/** Tags in use, most used first. */
+export function tagCounts(conversations: Conversation[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    conversations.forEach(c => (c.tags || []).forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+    return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/** Conversations in the view, pinned first, then newest first. */
+export function conversationsInView(conversations: Conversation[], view: ConversationView): Conversation[] {
+    return conversations
+        .filter(c => !!c.archived === view.archived)
+        .filter(c => view.folder === undefined || (view.folder === null ? !c.folder : c.folder === view.folder))
+        .filter(c => !view.tag || (c.tags || []).includes(view.tag))
+        .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.lastUpdated - a.lastUpdated);
+}
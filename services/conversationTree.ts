@@ -0,0 +1,55 @@
+import { Conversation, Message } from '../types';
+
+/**
+ * CONVERSATION TREE
+ * A conversation keeps every message it has ever had in `messages`; `parentId`
+ * links them into a tree, so editing a prompt or regenerating a reply adds a
+ * sibling instead of overwriting. The branch on screen (and sent as history) is
+ * the path from the root to `activeLeafId`.
+ */
+
+/** Messages saved before branching have no parentId; their parent is the message before them. */
+export function parentIdOf(messages: Message[], index: number): string | null {
+    const message = messages[index];
+    if (message.parentId !== undefined) return message.parentId;
+    return index > 0 ? messages[index - 1].id : null;
+}
+
+function parentMap(messages: Message[]): Map<string, string | null> {
+    return new Map(messages.map((m, i) => [m.id, parentIdOf(messages, i)]));
+}
+
+/** Root-to-leaf path for the active branch. */
+export function activeBranch(conversation: Pick<Conversation, 'messages' | 'activeLeafId'>): Message[] {
+    const { messages } = conversation;
+    if (messages.length === 0) return [];
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const parents = parentMap(messages);
+    const path: Message[] = [];
+    let current: Message | undefined = byId.get(conversation.activeLeafId || '') || messages[messages.length - 1];
+    while (current) {
+        path.unshift(current);
+        const parentId = parents.get(current.id);
+        current = parentId ? byId.get(parentId) : undefined;
+    }
+    return path;
+}
+
+/** Alternatives for a message (itself included), oldest first. */
+export function siblingsOf(messages: Message[], messageId: string): Message[] {
+    const parents = parentMap(messages);
+    if (!parents.has(messageId)) return [];
+    const parentId = parents.get(messageId);
+    return messages.filter(m => parents.get(m.id) === parentId);
+}
+
+/** Follows the newest child down from a message to the end of its branch. */
+export function newestLeaf(messages: Message[], messageId: string): string {
+    const parents = parentMap(messages);
+    let leaf = messageId;
+    for (;;) {
+        const children = messages.filter(m => parents.get(m.id) === leaf);
+        if (children.length === 0) return leaf;
+        leaf = children[children.length - 1].id;
+    }
+}
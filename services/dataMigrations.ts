@@ -0,0 +1,385 @@
+import { Message } from '../types';
+import { CHAT_THREADS, StoreName, RepositorySnapshot } from './repository';
+import {
+    LEGACY_CONVERSATIONS_PREFIX, LEGACY_SAVED_MESSAGES_PREFIX, LEGACY_VAULT_PREFIX, LEGACY_EXAM_HISTORY_PREFIX,
+    LEGACY_EXAM_SESSION_PREFIX, LEGACY_LINGUISTIC_RULES_KEY, LEGACY_LINGUISTIC_TRAINING_KEY, SCHEMA_REPORT_KEY
+} from '../utils/appUtils';
+
+/**
+ * SCHEMA MIGRATION REGISTRY
+ * Backups and stored records are upgraded one version at a time, then validated
+ * against the current types. Records that cannot be repaired are rejected and
+ * listed in the report instead of being written.
+ *
+ * v1  bare key/value map of localStorage (earliest backups)
+ * v2  { version: "3.2", bundle } wrapper
+ * v3  `repository` snapshot added when user data moved to IndexedDB
+ * v4  normalised record shapes (exam setup languages, vault file metadata, task enums)
+ */
+export const SCHEMA_VERSION = 4;
+
+export interface RejectedRecord {
+    store: StoreName;
+    key: string;
+    reasons: string[];
+}
+
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    /** Steps that ran, oldest first. */
+    applied: string[];
+    /** Records kept per store, after upgrades. */
+    accepted: Partial<Record<StoreName, number>>;
+    /** Records an upgrade step changed. */
+    migrated: number;
+    rejected: RejectedRecord[];
+}
+
+export interface BackupDocument {
+    schemaVersion: number;
+    appVersion: string;
+    timestamp: number;
+    /** Remaining localStorage keys (settings, users, notes). */
+    bundle: Record<string, string>;
+    repository: RepositorySnapshot;
+}
+
+interface SchemaStep {
+    version: number;
+    description: string;
+    /** Upgrades a whole backup document from `version - 1`. */
+    backup?: (doc: any) => any;
+    /** Upgrades one record from `version - 1`; returns it unchanged when nothing applies. */
+    record?: (store: StoreName, record: any) => any;
+}
+
+// --- LEGACY KEYS ---
+
+/** Maps one legacy localStorage entry to the v3 records it becomes; null when the key is not ours. */
+export function legacyKeyToRecords(key: string, raw: string | null): { store: StoreName; records: any[] } | null {
+    const suffix = (prefix: string) => key.startsWith(prefix) ? key.slice(prefix.length) : null;
+    const parse = (): any => {
+        try {
+            return JSON.parse(raw || 'null');
+        } catch (e) {
+            console.warn(`Skipping unreadable legacy key ${key}:`, e);
+            return null;
+        }
+    };
+    const list = (): any[] => {
+        const value = parse();
+        return Array.isArray(value) ? value : [];
+    };
+    let owner: string | null;
+
+    if ((owner = suffix(LEGACY_CONVERSATIONS_PREFIX)) !== null) {
+        return { store: 'conversations', records: list().map(c => ({ ...c, owner })) };
+    }
+    if ((owner = suffix(LEGACY_SAVED_MESSAGES_PREFIX)) !== null) {
+        // Legacy lists are newest-first; keep that order through savedAt
+        const now = Date.now();
+        return { store: 'savedMessages', records: list().map((m, i) => ({ ...m, owner, savedAt: now - i })) };
+    }
+    if ((owner = suffix(LEGACY_VAULT_PREFIX)) !== null) {
+        const vault = parse() || {};
+        return { store: 'vault', records: [{ owner, files: vault.files || [], tasks: vault.tasks || [], messages: vault.messages || [] }] };
+    }
+    let rollNo: string | null;
+    if ((rollNo = suffix(LEGACY_EXAM_HISTORY_PREFIX)) !== null) {
+        return { store: 'examHistory', records: list().map((r, i) => ({ ...r, rollNo, savedAt: Number(r.id) || Date.now() - i })) };
+    }
+    if ((rollNo = suffix(LEGACY_EXAM_SESSION_PREFIX)) !== null) {
+        const session = parse();
+        return { store: 'examSessions', records: session ? [{ ...session, rollNo }] : [] };
+    }
+    if (key === LEGACY_LINGUISTIC_RULES_KEY) {
+        return { store: 'linguistic', records: [{ kind: 'rules', entries: list() }] };
+    }
+    if (key === LEGACY_LINGUISTIC_TRAINING_KEY) {
+        return { store: 'linguistic', records: [{ kind: 'training', entries: list() }] };
+    }
+    // Chat thread histories used to live under `${thread}_${owner}`
+    for (const thread of Object.values(CHAT_THREADS)) {
+        if ((owner = suffix(`${thread}_`)) !== null) {
+            return { store: 'chatThreads', records: [{ owner, thread, messages: list() }] };
+        }
+    }
+    return null;
+}
+
+// --- V4 NORMALISERS ---
+
+const isText = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !isNaN(v);
+
+function normaliseMessage(m: any): any {
+    if (!m || typeof m !== 'object') return m;
+    return { ...m, id: m.id === undefined ? m.id : String(m.id), text: isText(m.text) ? m.text : m.text == null ? '' : String(m.text) };
+}
+
+function normaliseMessages(messages: any): any {
+    return Array.isArray(messages) ? messages.map(normaliseMessage) : messages === undefined ? [] : messages;
+}
+
+/** Analysis replies used free-form priorities ("High", "urgent"); the type only allows three. */
+function normaliseTask(t: any): any {
+    if (!t || typeof t !== 'object') return t;
+    const priority = String(t.priority || '').toLowerCase();
+    return {
+        ...t,
+        id: t.id === undefined ? Math.random().toString(36).substr(2, 9) : String(t.id),
+        status: ['pending', 'completed', 'in-progress'].includes(t.status) ? t.status : 'pending',
+        priority: ['low', 'medium', 'high'].includes(priority) ? priority : 'medium'
+    };
+}
+
+/** Early vault uploads stored only id, name and content. */
+function normaliseVaultFile(f: any): any {
+    if (!f || typeof f !== 'object') return f;
+    return {
+        ...f,
+        size: isNumber(f.size) ? f.size : (isText(f.content) ? f.content.length : 0),
+        type: isText(f.type) && f.type ? f.type : 'text/plain',
+        uploadedAt: isNumber(f.uploadedAt) ? f.uploadedAt : 0,
+        tasks: Array.isArray(f.tasks) ? f.tasks.map(normaliseTask) : f.tasks
+    };
+}
+
+/** The exam setup once stored a single language string; it is now a list. */
+function normaliseExamSetup(setup: any): any {
+    if (!setup || typeof setup !== 'object') return setup;
+    const language = Array.isArray(setup.language) ? setup.language : isText(setup.language) ? [setup.language] : ['English'];
+    return { ...setup, language };
+}
+
+function normaliseExamReport(r: any): any {
+    const results = r.results && typeof r.results === 'object' ? { ...r.results } : r.results;
+    if (results) {
+        if (!Array.isArray(results.breakdown)) results.breakdown = [];
+        if (!isNumber(results.percentage) && isNumber(results.marksObtained) && isNumber(results.totalMarks) && results.totalMarks > 0) {
+            results.percentage = Math.round((results.marksObtained / results.totalMarks) * 100);
+        }
+    }
+    return { ...r, id: r.id === undefined ? r.id : String(r.id), examSetup: normaliseExamSetup(r.examSetup), results };
+}
+
+function normaliseRecord(store: StoreName, r: any): any {
+    if (!r || typeof r !== 'object') return r;
+    switch (store) {
+        case 'conversations':
+            return {
+                ...r,
+                title: isText(r.title) ? r.title : 'New Transmission',
+                lastUpdated: isNumber(r.lastUpdated) ? r.lastUpdated : Number(r.id) || 0,
+                messages: normaliseMessages(r.messages)
+            };
+        case 'chatThreads':
+            return { ...r, messages: normaliseMessages(r.messages) };
+        case 'savedMessages':
+            return normaliseMessage(r);
+        case 'vault':
+            return {
+                ...r,
+                files: Array.isArray(r.files) ? r.files.map(normaliseVaultFile) : [],
+                tasks: Array.isArray(r.tasks) ? r.tasks.map(normaliseTask) : [],
+                messages: normaliseMessages(r.messages)
+            };
+        case 'examHistory':
+            return normaliseExamReport(r);
+        case 'examSessions':
+            return { ...r, examSetup: normaliseExamSetup(r.examSetup), timeLeft: isNumber(r.timeLeft) ? r.timeLeft : 0 };
+        default:
+            return r;
+    }
+}
+
+// --- REGISTRY ---
+
+const STEPS: SchemaStep[] = [
+    {
+        version: 2,
+        description: 'Wrapped bare key map in a versioned backup',
+        backup: (doc) => ({ version: '3.2', bundle: doc })
+    },
+    {
+        version: 3,
+        description: 'Moved chats, vault, exams and linguistic memory into repository stores',
+        backup: (doc) => {
+            const bundle: Record<string, string> = {};
+            const repository: RepositorySnapshot = {};
+            Object.keys(doc.bundle || {}).forEach(key => {
+                const mapped = legacyKeyToRecords(key, doc.bundle[key]);
+                if (!mapped) {
+                    bundle[key] = doc.bundle[key];
+                    return;
+                }
+                repository[mapped.store] = [...(repository[mapped.store] || []), ...mapped.records];
+            });
+            return { ...doc, bundle, repository };
+        }
+    },
+    {
+        version: 4,
+        description: 'Normalised exam setups, vault file metadata, task enums and message text',
+        record: normaliseRecord
+    }
+];
+
+// --- VALIDATION ---
+
+const isMessage = (m: any): m is Message => !!m && isText(m.id) && isText(m.text) && (m.sender === 'user' || m.sender === 'bot');
+const isMessageList = (v: any) => Array.isArray(v) && v.every(isMessage);
+
+/** Checks a record against the current types; returns the reasons it is unusable (empty when valid). */
+export function validateRecord(store: StoreName, r: any): string[] {
+    if (!r || typeof r !== 'object') return ['not an object'];
+    const checks: [boolean, string][] = [];
+    switch (store) {
+        case 'conversations':
+            checks.push([isText(r.owner), 'missing owner'], [isText(r.id), 'missing id'], [isText(r.title), 'title is not text'],
+                [isNumber(r.lastUpdated), 'lastUpdated is not a number'], [isMessageList(r.messages), 'messages are malformed']);
+            break;
+        case 'chatThreads':
+            checks.push([isText(r.owner), 'missing owner'], [isText(r.thread), 'missing thread id'], [isMessageList(r.messages), 'messages are malformed']);
+            break;
+        case 'savedMessages':
+            checks.push([isText(r.owner), 'missing owner'], [isMessage(r), 'message is malformed'], [isNumber(r.savedAt), 'savedAt is not a number']);
+            break;
+        case 'vault':
+            checks.push(
+                [isText(r.owner), 'missing owner'],
+                [Array.isArray(r.files) && r.files.every((f: any) => f && isText(f.id) && isText(f.name) && isText(f.content)), 'files are malformed'],
+                [Array.isArray(r.tasks) && r.tasks.every((t: any) => t && isText(t.id) && isText(t.text)), 'tasks are malformed'],
+                [isMessageList(r.messages), 'messages are malformed']
+            );
+            break;
+        case 'examHistory':
+            checks.push(
+                [isText(r.id), 'missing id'], [isText(r.rollNo), 'missing roll number'], [isNumber(r.savedAt), 'savedAt is not a number'],
+                [!!r.studentInfo && isText(r.studentInfo.name), 'missing student info'],
+                [!!r.results && isNumber(r.results.marksObtained) && isNumber(r.results.totalMarks) && isNumber(r.results.percentage), 'results are incomplete']
+            );
+            break;
+        case 'examSessions':
+            checks.push([isText(r.rollNo), 'missing roll number'], [Array.isArray(r.questions), 'questions are missing'], [Array.isArray(r.userAnswers), 'answers are missing']);
+            break;
+        case 'linguistic':
+            checks.push([r.kind === 'rules' || r.kind === 'training', 'unknown memory kind'], [Array.isArray(r.entries), 'entries are not a list']);
+            break;
+    }
+    return checks.filter(([ok]) => !ok).map(([, reason]) => reason);
+}
+
+// --- RUNNER ---
+
+export function createReport(fromVersion: number): MigrationReport {
+    return {
+        fromVersion,
+        toVersion: SCHEMA_VERSION,
+        applied: STEPS.filter(s => s.version > fromVersion).map(s => `v${s.version}: ${s.description}`),
+        accepted: {},
+        migrated: 0,
+        rejected: []
+    };
+}
+
+function describeKey(r: any): string {
+    if (!r || typeof r !== 'object') return String(r);
+    return [r.owner, r.rollNo, r.thread, r.kind, r.id].filter(v => v !== undefined).join(' / ') || '(no key)';
+}
+
+/**
+ * Upgrades one record from `fromVersion` and validates it, recording the outcome.
+ * Returns the upgraded record, or null when it was rejected (after passing the
+ * reasons to `onReject`).
+ */
+export function processRecord(report: MigrationReport, store: StoreName, record: any, fromVersion: number, onReject?: (reasons: string[]) => void): any | null {
+    let upgraded = record;
+    STEPS.filter(s => s.version > fromVersion && s.record).forEach(s => { upgraded = s.record!(store, upgraded); });
+
+    const reasons = validateRecord(store, upgraded);
+    if (reasons.length > 0) {
+        report.rejected.push({ store, key: describeKey(record), reasons });
+        onReject?.(reasons);
+        return null;
+    }
+    if (JSON.stringify(upgraded) !== JSON.stringify(record)) report.migrated++;
+    report.accepted[store] = (report.accepted[store] || 0) + 1;
+    return upgraded;
+}
+
+export function detectBackupVersion(raw: any): number {
+    if (isNumber(raw?.schemaVersion)) return raw.schemaVersion;
+    if (raw?.bundle && typeof raw.bundle === 'object') return raw.repository ? 3 : 2;
+    return 1;
+}
+
+/** Upgrades a parsed backup file of any known version to the current schema. */
+export function migrateBackup(raw: any): { backup: BackupDocument; report: MigrationReport } {
+    if (!raw || typeof raw !== 'object') throw new Error("Backup is not a JSON object.");
+    const fromVersion = detectBackupVersion(raw);
+    if (fromVersion > SCHEMA_VERSION) {
+        throw new Error(`Backup uses schema v${fromVersion}, which is newer than this app (v${SCHEMA_VERSION}). Update SigNify first.`);
+    }
+
+    let doc = raw;
+    STEPS.filter(s => s.version > fromVersion && s.backup).forEach(s => { doc = s.backup!(doc); });
+
+    // Record steps run inside processRecord; legacy keys moved at v3 are v3 records
+    const recordsFrom = Math.max(fromVersion, 3);
+    const report = createReport(fromVersion);
+    const repository: RepositorySnapshot = {};
+    (Object.keys(doc.repository || {}) as StoreName[]).forEach(store => {
+        const records: any[] = Array.isArray(doc.repository[store]) ? doc.repository[store] : [];
+        repository[store] = records.map(r => processRecord(report, store, r, recordsFrom)).filter(r => r !== null);
+    });
+
+    const bundle: Record<string, string> = {};
+    Object.keys(doc.bundle || {}).forEach(key => {
+        if (isText(doc.bundle[key])) bundle[key] = doc.bundle[key];
+    });
+
+    return {
+        backup: {
+            schemaVersion: SCHEMA_VERSION,
+            appVersion: isText(doc.appVersion) ? doc.appVersion : isText(doc.version) ? doc.version : '3.2',
+            timestamp: isNumber(doc.timestamp) ? doc.timestamp : Date.now(),
+            bundle,
+            repository
+        },
+        report
+    };
+}
+
+/** Keeps the latest storage upgrade report for the Backup Center; no-op runs are not recorded. */
+export function recordMigrationReport(report: MigrationReport) {
+    const accepted = Object.values(report.accepted).reduce((n, c) => n + (c || 0), 0);
+    if (accepted === 0 && report.rejected.length === 0) return;
+    console.info("SigNify Storage: schema migration report", report);
+    try {
+        localStorage.setItem(SCHEMA_REPORT_KEY, JSON.stringify({ ...report, at: Date.now() }));
+    } catch (e) {}
+}
+
+export function getLastMigrationReport(): (MigrationReport & { at: number }) | null {
+    try {
+        return JSON.parse(localStorage.getItem(SCHEMA_REPORT_KEY) || 'null');
+    } catch (e) {
+        return null;
+    }
+}
+
+/** One-paragraph summary for confirmation dialogs and the Backup Center. */
+export function formatMigrationReport(report: MigrationReport): string {
+    const accepted = Object.values(report.accepted).reduce((n, c) => n + (c || 0), 0);
+    const lines = [
+        report.fromVersion === report.toVersion
+            ? `Schema v${report.toVersion} (current).`
+            : `Upgraded from schema v${report.fromVersion} to v${report.toVersion}.`,
+        `${accepted} records ready, ${report.migrated} updated, ${report.rejected.length} rejected.`
+    ];
+    report.rejected.slice(0, 5).forEach(r => lines.push(`- ${r.store} [${r.key}]: ${r.reasons.join(', ')}`));
+    if (report.rejected.length > 5) lines.push(`- ...and ${report.rejected.length - 5} more`);
+    return lines.join('\n');
+}
@@ -0,0 +1,153 @@
+import { SubscriptionTier } from '../types';
+import { USAGE_PREFIX } from '../utils/appUtils';
+import { AIError } from './aiErrors';
+import { ownerKey } from './repository';
+
+/**
+ * PLAN ENTITLEMENTS
+ * What each subscription tier includes. Daily allowances are metered in
+ * geminiService and reset at local midnight; notebook sources and vault size are
+ * caps checked where material is added. Roles with `features.unlimited` skip every
+ * limit (see setEntitlementContext). Hitting a limit also raises an upgrade
+ * prompt, which App answers by opening the SubscriptionModal.
+ */
+export interface TierEntitlements {
+    dailyMessages: number;
+    dailyTtsMinutes: number;
+    dailyImages: number;
+    notebookSources: number;
+    vaultBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+export const TIER_ORDER: SubscriptionTier[] = ['free', 'study', 'pro'];
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+    free: { dailyMessages: 30, dailyTtsMinutes: 5, dailyImages: 0, notebookSources: 5, vaultBytes: 10 * MB },
+    study: { dailyMessages: 200, dailyTtsMinutes: 30, dailyImages: 20, notebookSources: 25, vaultBytes: 100 * MB },
+    pro: { dailyMessages: 1000, dailyTtsMinutes: 120, dailyImages: 100, notebookSources: 100, vaultBytes: 500 * MB }
+};
+
+/** Lowest tier that may open a page; pages missing here are open on every plan. */
+export const PAGE_TIERS: Record<string, SubscriptionTier> = {
+    creative: 'study'
+};
+
+export const ENTITLEMENT_LABELS: Record<keyof TierEntitlements, string> = {
+    dailyMessages: 'Chat messages / day',
+    dailyTtsMinutes: 'Voice minutes / day',
+    dailyImages: 'Image generations / day',
+    notebookSources: 'Notebook sources',
+    vaultBytes: 'Vault storage'
+};
+
+/** Allowances counted per day; each maps to the entitlement that caps it. */
+export type UsageMetric = 'messages' | 'ttsSeconds' | 'images';
+
+const METRIC_LIMITS: Record<UsageMetric, (e: TierEntitlements) => number> = {
+    messages: e => e.dailyMessages,
+    ttsSeconds: e => e.dailyTtsMinutes * 60,
+    images: e => e.dailyImages
+};
+
+const METRIC_NOUNS: Record<UsageMetric, string> = {
+    messages: 'chat message',
+    ttsSeconds: 'voice',
+    images: 'image generation'
+};
+
+export interface DailyUsage {
+    day: string;
+    messages: number;
+    ttsSeconds: number;
+    images: number;
+}
+
+export const UPGRADE_EVENT = 'signify:upgrade';
+
+let context: { email: string | null; tier: SubscriptionTier; unlimited: boolean } = { email: null, tier: 'free', unlimited: false };
+
+/** Called by App whenever the signed-in user, their tier or their role changes. */
+export function setEntitlementContext(email: string | null, tier: SubscriptionTier, unlimited: boolean) {
+    context = { email, tier, unlimited };
+}
+
+export function currentEntitlements(): TierEntitlements {
+    return TIER_ENTITLEMENTS[context.tier];
+}
+
+export function formatEntitlement(key: keyof TierEntitlements, value: number): string {
+    if (key === 'vaultBytes') return `${Math.round(value / MB)} MB`;
+    return String(value);
+}
+
+export function checkFeatureAccess(pageId: string, tier: SubscriptionTier): boolean {
+    const required = PAGE_TIERS[pageId];
+    return !required || TIER_ORDER.indexOf(tier) >= TIER_ORDER.indexOf(required);
+}
+
+export function pageUpgradeMessage(pageId: string): string {
+    return `This module needs the ${(PAGE_TIERS[pageId] || 'study').toUpperCase()} plan or higher.`;
+}
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export function getDailyUsage(email: string | null = context.email): DailyUsage {
+    const empty: DailyUsage = { day: today(), messages: 0, ttsSeconds: 0, images: 0 };
+    try {
+        const stored: DailyUsage = JSON.parse(localStorage.getItem(USAGE_PREFIX + ownerKey(email)) || 'null');
+        return stored && stored.day === empty.day ? { ...empty, ...stored } : empty;
+    } catch {
+        return empty;
+    }
+}
+
+export function recordUsage(metric: UsageMetric, amount: number = 1) {
+    if (context.unlimited || amount <= 0) return;
+    const usage = getDailyUsage();
+    usage[metric] += amount;
+    localStorage.setItem(USAGE_PREFIX + ownerKey(context.email), JSON.stringify(usage));
+}
+
+/** Asks App to open the upgrade prompt with the reason shown at the top. */
+export function requestUpgrade(reason: string) {
+    window.dispatchEvent(new CustomEvent(UPGRADE_EVENT, { detail: reason }));
+}
+
+export function onUpgradeRequest(handler: (reason: string) => void): () => void {
+    const listener = (e: Event) => handler((e as CustomEvent<string>).detail);
+    window.addEventListener(UPGRADE_EVENT, listener);
+    return () => window.removeEventListener(UPGRADE_EVENT, listener);
+}
+
+/**
+ * Throws a `limit-reached` AIError (and raises the upgrade prompt) when today's
+ * allowance for the metric is used up.
+ */
+export function assertAllowance(metric: UsageMetric) {
+    if (context.unlimited) return;
+    const limit = METRIC_LIMITS[metric](currentEntitlements());
+    if (getDailyUsage()[metric] < limit) return;
+    const message = limit === 0
+        ? `The ${context.tier.toUpperCase()} plan does not include ${METRIC_NOUNS[metric]}s. Upgrade to unlock them.`
+        : `Daily ${METRIC_NOUNS[metric]} limit reached on the ${context.tier.toUpperCase()} plan. It resets at midnight, or upgrade for more.`;
+    requestUpgrade(message);
+    throw new AIError('limit-reached', message);
+}
+
+/**
+ * How many more of a capped item (notebook sources, vault bytes) fit next to the
+ * amount already in use. Unlimited roles always get Infinity.
+ */
+export function remainingCapacity(key: 'notebookSources' | 'vaultBytes', inUse: number): number {
+    if (context.unlimited) return Infinity;
+    return Math.max(0, currentEntitlements()[key] - inUse);
+}
+
+export function capacityReachedMessage(key: 'notebookSources' | 'vaultBytes'): string {
+    const limit = formatEntitlement(key, currentEntitlements()[key]);
+    return key === 'notebookSources'
+        ? `The ${context.tier.toUpperCase()} plan holds up to ${limit} notebook sources. Upgrade to add more.`
+        : `The ${context.tier.toUpperCase()} plan includes ${limit} of vault storage. Upgrade for more space.`;
+}
@@ -0,0 +1,108 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AIProvider, AITextRequest, AIJSONRequest, AITTSRequest } from './aiProvider';
+import { AIError, blockedResponseError, parseJSONResponse } from './aiErrors';
+
+/**
+ * GEMINI ADAPTER
+ * Talks to Google directly from the browser using the build-time API key.
+ */
+function createClient(): GoogleGenAI {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+        throw new AIError('auth', "Security Error: Logic core API key is missing. Check environment configuration.");
+    }
+    return new GoogleGenAI({ apiKey });
+}
+
+export function baseConfig(req: AITextRequest): Record<string, any> {
+    return {
+        ...(req.systemInstruction ? { systemInstruction: req.systemInstruction } : {}),
+        ...(req.temperature !== undefined ? { temperature: req.temperature } : {})
+    };
+}
+
+export function jsonConfig(req: AIJSONRequest): Record<string, any> {
+    return {
+        ...baseConfig(req),
+        responseMimeType: 'application/json',
+        ...(req.responseSchema ? { responseSchema: req.responseSchema } : {})
+    };
+}
+
+export function speechConfig(req: AITTSRequest): Record<string, any> {
+    if (req.speakers && req.speakers.length > 0) {
+        return {
+            multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: req.speakers.map(s => ({ speaker: s.speaker, voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } } }))
+            }
+        };
+    }
+    return { voiceConfig: { prebuiltVoiceConfig: { voiceName: req.voice || 'Kore' } } };
+}
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+
+    async generate(req) {
+        const response = await createClient().models.generateContent({
+            model: req.model,
+            contents: req.contents,
+            config: { ...baseConfig(req), abortSignal: req.signal }
+        });
+        const blocked = blockedResponseError(response);
+        if (blocked) throw blocked;
+        return response.text || "";
+    },
+
+    async *stream(req) {
+        const response = await createClient().models.generateContentStream({
+            model: req.model,
+            contents: req.contents,
+            config: { ...baseConfig(req), abortSignal: req.signal }
+        });
+        for await (const chunk of response) {
+            const blocked = blockedResponseError(chunk);
+            if (blocked) throw blocked;
+            yield chunk.text || "";
+        }
+    },
+
+    async generateJSON(req) {
+        const response = await createClient().models.generateContent({
+            model: req.model,
+            contents: req.contents,
+            config: { ...jsonConfig(req), abortSignal: req.signal }
+        });
+        const blocked = blockedResponseError(response);
+        if (blocked) throw blocked;
+        return response.text ? parseJSONResponse(response.text) : null;
+    },
+
+    async tts(req) {
+        const response = await createClient().models.generateContent({
+            model: req.model,
+            contents: [{ parts: [{ text: req.text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: speechConfig(req),
+                abortSignal: req.signal
+            }
+        });
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    },
+
+    async image(req) {
+        const response = await createClient().models.generateContent({
+            model: req.model,
+            contents: { parts: [{ text: req.prompt }] },
+            config: { imageConfig: { aspectRatio: req.aspectRatio || "1:1" }, abortSignal: req.signal }
+        });
+        const blocked = blockedResponseError(response);
+        if (blocked) throw blocked;
+        const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+        if (part && part.inlineData) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+        return undefined;
+    }
+};
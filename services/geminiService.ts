@@ -1,5 +1,12 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { Message, TranslatorResponse, NotebookSource, VaultFile, VaultTask, Question, UserAnswer, ExamReport } from '../types';
+import { Type } from "@google/genai";
+import { Message, TranslatorResponse, NotebookSource, VaultFile, VaultTask, LinguisticRule, Question, UserAnswer, ExamReport, TokenUsage, ContextSummary, Persona } from '../types';
+import { getAIProvider, AIContent } from './aiProvider';
+import { AIError, toAIError } from './aiErrors';
+import { buildChatContext, buildUsage, clampToTokens, ChatContext } from './contextBuilder';
+import { cachedResponse, CACHE_TTL } from './responseCache';
+import { AIFeature, markModelUnavailable, modelChain, resolveModel, withModelFallback } from './modelRouting';
+import { appendLinguisticTraining, loadLinguisticRules, loadVault, saveLinguisticRules } from './repository';
+import { assertAllowance, recordUsage } from './entitlements';
 
 const GLOBAL_CAPABILITIES = `
 [APP FEATURE AWARENESS]
@@ -9,84 +16,141 @@ Modules: Neural Reader (SigNify LM), Translator, Creative Studio, Neural Vault.
 
 /**
  * 2025 COMPATIBILITY STANDARDS
- * PRIMARY_MODEL: Using 'gemini-flash-latest' for maximum compatibility across all API key tiers.
- * PRO_MODEL: Using 'gemini-3-pro-preview' for advanced reasoning.
+ * Each feature resolves its model through modelRouting (user-configurable),
+ * which also supplies the fallback chain for unavailable models.
  */
-const PRIMARY_MODEL = 'gemini-flash-latest';
-const PRO_MODEL = 'gemini-3-pro-preview';
-const IMAGE_MODEL = 'gemini-2.5-flash-image';
-const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/** Caps on free-form context so vault and notebook material cannot crowd out the conversation. */
+const VAULT_RECALL_TOKENS = 4000;
+const SOURCE_CONTEXT_TOKENS = 12000;
+
+/**
+ * Streams open with a `model` chunk naming the model that answered and end with a
+ * `usage` chunk carrying the token/cost estimate for the exchange.
+ */
+export type ChatStreamChunk = { text?: string, error?: AIError, usage?: TokenUsage, model?: string };
 
 /**
  * NEURAL STABILITY PROTOCOL
- * Implements exponential backoff to handle 429 (Quota) and transient 5xx errors.
+ * Implements exponential backoff for retryable AIError codes (quota, network, timeout).
+ * Always rejects with an AIError so callers can branch on `code`; an aborted signal stops retries.
  */
-async function withStability<T>(fn: () => Promise<T>, retries = 3): Promise<T> {
-    let lastErr: any;
+async function withStability<T>(fn: () => Promise<T>, signal?: AbortSignal, retries = 3): Promise<T> {
+    let lastErr: AIError | undefined;
     for (let i = 0; i <= retries; i++) {
         try {
             return await fn();
         } catch (err: any) {
-            lastErr = err;
-            const msg = (err?.message || String(err)).toLowerCase();
-            // Retry on quota, service busy, or common transient network resets
-            const isRetryable = msg.includes("429") || msg.includes("quota") || msg.includes("503") || 
-                               msg.includes("500") || msg.includes("deadline") || msg.includes("fetch") ||
-                               msg.includes("network");
-
-            if (isRetryable && i < retries) {
-                const delay = Math.pow(2, i) * 1000 + Math.random() * 1000;
-                console.warn(`SigNify Stability Protocol: Retry ${i + 1}/${retries} after ${Math.round(delay)}ms. Reason: ${msg}`);
+            const aiErr = toAIError(err);
+            lastErr = aiErr;
+
+            // Honour the proxy's Retry-After instead of hammering a throttled bucket
+            const { retryAfterMs } = aiErr;
+            if (aiErr.retryable && !signal?.aborted && i < retries && (retryAfterMs === undefined || retryAfterMs <= 10000)) {
+                const delay = retryAfterMs ?? Math.pow(2, i) * 1000 + Math.random() * 1000;
+                console.warn(`SigNify Stability Protocol: Retry ${i + 1}/${retries} after ${Math.round(delay)}ms. Reason: ${aiErr.code} (${aiErr.message})`);
                 await new Promise(r => setTimeout(r, delay));
                 continue;
             }
-            throw err;
+            throw aiErr;
         }
     }
     throw lastErr;
 }
 
-export function getGlobalVaultContext(userEmail?: string | null): string {
-    let context = "\n\n[NEURAL RECALL]";
+/** TTS returns 16-bit mono PCM at 24kHz as base64; its length gives the spoken duration. */
+const TTS_BYTES_PER_SECOND = 24000 * 2;
+
+const ttsSeconds = (base64Audio: string) => Math.ceil(base64Audio.length * 3 / 4 / TTS_BYTES_PER_SECOND);
+
+/**
+ * Streams one chat turn down the feature's model chain. An unavailable model only
+ * falls through to the next one before any text has arrived; the context is rebuilt
+ * per model because budgets differ. Each turn counts against the daily message
+ * allowance once the first chunk arrives.
+ */
+async function* streamWithFallback(
+    feature: AIFeature,
+    buildContext: (model: string) => ChatContext,
+    signal?: AbortSignal,
+    chatMode?: string,
+    temperature?: number
+): AsyncGenerator<ChatStreamChunk> {
     try {
-        const storageKey = `signify_vault_${(userEmail || 'global').replace(/[@.]/g, '_')}`;
-        const saved = localStorage.getItem(storageKey);
-        if (saved) {
-            const parsed = JSON.parse(saved);
-            const files: VaultFile[] = parsed.files || [];
-            if (files.length > 0) {
-                context += "\n--- USER DATA ---";
-                files.forEach(f => {
-                    context += `\n- FILE: ${f.name} | SUMMARY: ${f.summary || "N/A"} | PREVIEW: ${f.content.substring(0, 1000)}`;
-                });
+        assertAllowance('messages');
+    } catch (err) {
+        yield { error: toAIError(err) };
+        return;
+    }
+    let lastErr: AIError | undefined;
+    for (const model of modelChain(feature, chatMode)) {
+        const context = buildContext(model);
+        let started = false;
+        let reply = "";
+        try {
+            const response = getAIProvider().stream({ model, contents: context.contents, systemInstruction: context.systemInstruction, temperature, signal });
+            for await (const chunk of response) {
+                if (signal?.aborted) return;
+                if (!started) {
+                    started = true;
+                    recordUsage('messages');
+                    yield { model };
+                }
+                reply += chunk;
+                yield { text: chunk };
+            }
+            yield { usage: buildUsage(model, context, reply) };
+            return;
+        } catch (err: any) {
+            // A stopped generation ends quietly; the caller owns the signal and marks the reply.
+            if (signal?.aborted) return;
+            const aiErr = toAIError(err);
+            if (aiErr.code === 'model-unavailable' && !started) {
+                console.warn(`SigNify Model Routing: ${model} unavailable for ${feature}, trying next model.`);
+                markModelUnavailable(model);
+                lastErr = aiErr;
+                continue;
             }
+            console.error("SigNify Logic Core Exception:", aiErr);
+            yield { error: aiErr };
+            return;
+        }
+    }
+    if (lastErr) yield { error: lastErr };
+}
+
+export async function getGlobalVaultContext(userEmail?: string | null): Promise<string> {
+    let context = "\n\n[NEURAL RECALL]";
+    try {
+        const { files } = await loadVault(userEmail);
+        if (files.length > 0) {
+            context += "\n--- USER DATA ---";
+            files.forEach(f => {
+                context += `\n- FILE: ${f.name} | SUMMARY: ${f.summary || "N/A"} | PREVIEW: ${f.content.substring(0, 1000)}`;
+            });
         }
     } catch (e) {}
-    return context;
+    return clampToTokens(context, VAULT_RECALL_TOKENS);
 }
 
-function getLinguisticContext(): string {
+async function getLinguisticContext(): Promise<string> {
     try {
-        const explicitRules = localStorage.getItem('sike_explicit_linguistic_rules') || '[]';
-        const parsedExplicit: {trigger: string, response: string}[] = JSON.parse(explicitRules);
+        const rules = await loadLinguisticRules();
         let context = "\n\n[LINGUISTIC CONTEXT]";
-        parsedExplicit.forEach(r => context += `- Trigger: "${r.trigger}" -> Reaction: "${r.response}"\n`);
+        rules.forEach(r => context += `- Trigger: "${r.trigger}" -> Reaction: "${r.response}"\n`);
         return context;
     } catch (e) { return ""; }
 }
 
 export function saveToLinguisticMemory(text: string) {
     if (!text || text.length < 5) return;
-    const memory = localStorage.getItem('sike_linguistic_training_sindhi') || '[]';
-    const parsed: string[] = JSON.parse(memory);
-    parsed.push(text.trim());
-    localStorage.setItem('sike_linguistic_training_sindhi', JSON.stringify(parsed.slice(-1000)));
+    appendLinguisticTraining(text.trim());
 }
 
-export function saveExplicitLinguisticRule(trigger: string, response: string) {
-    const rules = JSON.parse(localStorage.getItem('sike_explicit_linguistic_rules') || '[]');
-    rules.push({ id: Date.now().toString(), trigger, response });
-    localStorage.setItem('sike_explicit_linguistic_rules', JSON.stringify(rules));
+export async function saveExplicitLinguisticRule(trigger: string, response: string): Promise<LinguisticRule> {
+    const rule: LinguisticRule = { id: Date.now().toString(), trigger, response };
+    saveLinguisticRules([...await loadLinguisticRules(), rule]);
+    return rule;
 }
 
 export async function* streamAIChatResponse(
@@ -97,153 +161,133 @@ export async function* streamAIChatResponse(
     userEmail?: string | null,
     userProfileNotes?: string,
     chatMode: string = 'General',
-    userName: string = 'Guest'
-): AsyncGenerator<{ text?: string, error?: string }> {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        yield { error: "Security Error: Logic core API key is missing. Check environment configuration." };
-        return;
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-    const sys = `Persona: SigNify Engine 3.2. Mode: ${chatMode}. User: ${userName}. Language: ${language}.
-    ${GLOBAL_CAPABILITIES}${getLinguisticContext()}${getGlobalVaultContext(userEmail)}
+    userName: string = 'Guest',
+    signal?: AbortSignal,
+    contextSummary?: ContextSummary,
+    persona?: Persona
+): AsyncGenerator<ChatStreamChunk> {
+    // A persona without instructions (the built-in modes) keeps the stock SigNify identity
+    const identity = persona?.instructions ? `Persona: ${persona.name}.\n${persona.instructions}\n` : `Persona: SigNify Engine 3.2. Mode: ${chatMode}.`;
+    const sys = `${identity} User: ${userName}. Language: ${language}.
+    ${GLOBAL_CAPABILITIES}${await getLinguisticContext()}${await getGlobalVaultContext(userEmail)}
     [USER MEMORY] ${userProfileNotes || 'None'}`;
 
-    const contents = history
-        .filter(m => m.text && m.text.trim().length > 0)
-        .map(m => ({ role: m.sender === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
-    
-    const currentParts: any[] = [{ text: prompt }];
+    const currentParts: AIContent['parts'] = [{ text: prompt }];
     if (images && images.length > 0) {
         images.forEach(img => {
             currentParts.push({ inlineData: { data: img.base64, mimeType: img.mimeType } });
         });
     }
-    contents.push({ role: 'user', parts: currentParts });
-
-    try {
-        const response = await ai.models.generateContentStream({
-            model: PRIMARY_MODEL,
-            contents,
-            config: { systemInstruction: sys }
-        });
+    // Creative Studio has its own routing entry; every other mode routes through 'chat'.
+    const feature: AIFeature = chatMode === 'Creative Studio Director' ? 'creative' : 'chat';
+    yield* streamWithFallback(
+        feature,
+        (model) => buildChatContext({ model, systemInstruction: sys, history, prompt: currentParts, summary: contextSummary }),
+        signal,
+        chatMode,
+        persona?.temperature
+    );
+}
 
-        for await (const chunk of response) {
-            yield { text: chunk.text || "" };
-        }
-    } catch (err: any) {
-        console.error("SigNify Logic Core Exception:", err);
-        const msg = (err?.message || String(err)).toLowerCase();
-        
-        if (msg.includes("429") || msg.includes("quota") || msg.includes("exhausted")) {
-            yield { error: "Neural Bandwidth Saturated: The API quota for this key has been reached. Please wait 60 seconds." };
-        } else if (msg.includes("model") && (msg.includes("not found") || msg.includes("permission"))) {
-            yield { error: "Compatibility Error: The selected model is not supported by your current API key permissions." };
-        } else if (!navigator.onLine) {
-            yield { error: "Transmission Interrupted: Your local network connectivity has been lost." };
-        } else {
-            yield { error: "Handshake Failure: A transient network reset occurred on the hosting platform. Please try again." };
+const TRANSLATION_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        mainTranslation: { type: Type.STRING },
+        wordByWord: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { original: { type: Type.STRING }, translation: { type: Type.STRING } }
+            }
         }
     }
-}
+};
 
-export async function analyzeVaultFile(file: VaultFile): Promise<{ summary: string, tasks: VaultTask[] }> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function analyzeVaultFile(file: VaultFile, signal?: AbortSignal): Promise<{ summary: string, tasks: VaultTask[] }> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
+        return await withModelFallback('vaultAnalysis', (model) => withStability(async () => {
+            const data = await getAIProvider().generateJSON({
+                model,
                 contents: `Analyze file: ${file.name}. Content: ${file.content.slice(0, 15000)}`,
-                config: { 
-                    responseMimeType: 'application/json',
-                    systemInstruction: 'Summarize the file and extract 3 tasks. Return JSON: { "summary": string, "tasks": [{ "text": string, "priority": "high" }] }'
-                }
-            });
-            const data = JSON.parse(response.text || '{"summary":"Analysis failed","tasks":[]}');
+                systemInstruction: 'Summarize the file and extract 3 tasks. Return JSON: { "summary": string, "tasks": [{ "text": string, "priority": "high" }] }',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        summary: { type: Type.STRING },
+                        tasks: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING }, priority: { type: Type.STRING } } } }
+                    }
+                },
+                signal
+            }) || { summary: "Analysis failed", tasks: [] };
             return {
                 summary: data.summary || "",
                 tasks: (data.tasks || []).map((t: any) => ({ ...t, id: Math.random().toString(), status: 'pending' }))
             };
-        });
+        }, signal));
     } catch (e) {
         return { summary: "Deep analysis failed due to logic core instability.", tasks: [] };
     }
 }
 
-export async function getTranslatorResponse(text: string, sourceLang: string, targetLang: string): Promise<TranslatorResponse> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return withStability(async () => {
-        const response = await ai.models.generateContent({
-            model: PRIMARY_MODEL,
+export async function getTranslatorResponse(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<TranslatorResponse> {
+    return cachedResponse('getTranslatorResponse', resolveModel('translator'), { text, sourceLang, targetLang }, CACHE_TTL.week, () => withModelFallback('translator', (model) => withStability(async () => {
+        const data = await getAIProvider().generateJSON<TranslatorResponse>({
+            model,
             contents: `Translate from ${sourceLang} to ${targetLang}: "${text}"`,
-            config: { 
-                responseMimeType: 'application/json',
-                systemInstruction: 'Return JSON: { "mainTranslation": string, "wordByWord": [{ "original": string, "translation": string }] }'
-            }
+            systemInstruction: 'Return JSON: { "mainTranslation": string, "wordByWord": [{ "original": string, "translation": string }] }',
+            responseSchema: TRANSLATION_SCHEMA,
+            signal
         });
-        return JSON.parse(response.text || '{"mainTranslation":"","wordByWord":[]}');
-    });
+        return data || { mainTranslation: "", wordByWord: [] };
+    }, signal)), (r) => !!r.mainTranslation);
 }
 
-export async function getTranslatorResponseFromImage(base64: string, mimeType: string, sourceLang: string, targetLang: string): Promise<TranslatorResponse> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return withStability(async () => {
-        const response = await ai.models.generateContent({
-            model: PRIMARY_MODEL,
+export async function getTranslatorResponseFromImage(base64: string, mimeType: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<TranslatorResponse> {
+    return withModelFallback('translator', (model) => withStability(async () => {
+        const data = await getAIProvider().generateJSON<TranslatorResponse>({
+            model,
             contents: [
                 { role: 'user', parts: [{ inlineData: { data: base64, mimeType } }, { text: `Extract text and translate from ${sourceLang} to ${targetLang}.` }] }
             ],
-            config: { 
-                responseMimeType: 'application/json',
-                systemInstruction: 'Return JSON: { "mainTranslation": string, "wordByWord": [{ "original": string, "translation": string }] }'
-            }
+            systemInstruction: 'Return JSON: { "mainTranslation": string, "wordByWord": [{ "original": string, "translation": string }] }',
+            responseSchema: TRANSLATION_SCHEMA,
+            signal
         });
-        return JSON.parse(response.text || '{"mainTranslation":"","wordByWord":[]}');
-    });
+        return data || { mainTranslation: "", wordByWord: [] };
+    }, signal));
 }
 
-export async function generateGeminiTTS(text: string, voice: string = 'Kore', emotion: string = 'Neutral'): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateGeminiTTS(text: string, voice: string = 'Kore', emotion: string = 'Neutral', signal?: AbortSignal): Promise<string | undefined> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: TTS_MODEL,
-                contents: [{ parts: [{ text: `Say with ${emotion} tone: ${text}` }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } }
-                }
-            });
-            return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        });
+        assertAllowance('ttsSeconds');
+        const audio = await withModelFallback('tts', (model) => withStability(() => getAIProvider().tts({
+            model,
+            text: `Say with ${emotion} tone: ${text}`,
+            voice,
+            signal
+        }), signal));
+        if (audio) recordUsage('ttsSeconds', ttsSeconds(audio));
+        return audio;
     } catch (e) {
         console.error("TTS Core Error:", e);
         return undefined;
     }
 }
 
-export async function generateMultiSpeakerTTS(text: string, v1: string, v2: string): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateMultiSpeakerTTS(text: string, v1: string, v2: string, signal?: AbortSignal): Promise<string | undefined> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: TTS_MODEL,
-                contents: [{ parts: [{ text: text }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        multiSpeakerVoiceConfig: {
-                            speakerVoiceConfigs: [
-                                { speaker: 'Speaker1', voiceConfig: { prebuiltVoiceConfig: { voiceName: v1 } } },
-                                { speaker: 'Speaker2', voiceConfig: { prebuiltVoiceConfig: { voiceName: v2 } } }
-                            ]
-                        }
-                    }
-                }
-            });
-            return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        });
+        assertAllowance('ttsSeconds');
+        const audio = await withModelFallback('tts', (model) => withStability(() => getAIProvider().tts({
+            model,
+            text,
+            speakers: [
+                { speaker: 'Speaker1', voice: v1 },
+                { speaker: 'Speaker2', voice: v2 }
+            ],
+            signal
+        }), signal));
+        if (audio) recordUsage('ttsSeconds', ttsSeconds(audio));
+        return audio;
     } catch (e) {
         console.error("Multi-Speaker TTS Error:", e);
         return undefined;
@@ -256,84 +300,105 @@ export async function* streamCreativeResponse(
     language: string,
     images: { base64: string; mimeType: string }[] = [],
     userEmail?: string | null,
-    userProfileNotes?: string
-): AsyncGenerator<{ text?: string, error?: string }> {
-    yield* streamAIChatResponse(prompt, history, language, images, userEmail, userProfileNotes, 'Creative Studio Director');
+    userProfileNotes?: string,
+    signal?: AbortSignal
+): AsyncGenerator<ChatStreamChunk> {
+    yield* streamAIChatResponse(prompt, history, language, images, userEmail, userProfileNotes, 'Creative Studio Director', undefined, signal);
 }
 
-export async function generateNanoBananaImage(prompt: string): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateNanoBananaImage(prompt: string, signal?: AbortSignal): Promise<string | undefined> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: IMAGE_MODEL,
-                contents: { parts: [{ text: prompt }] },
-                config: { imageConfig: { aspectRatio: "1:1" } }
-            });
-            const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-            if (part && part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            }
-            return undefined;
-        });
+        assertAllowance('images');
+        const image = await withModelFallback('image', (model) => withStability(() => getAIProvider().image({
+            model,
+            prompt,
+            aspectRatio: "1:1",
+            signal
+        }), signal));
+        if (image) recordUsage('images');
+        return image;
     } catch (e) {
         console.error("Image Synthesis Error:", e);
         return undefined;
     }
 }
 
-export async function generateConversationTitle(userMsg: string, botMsg: string): Promise<string> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateConversationTitle(userMsg: string, botMsg: string, signal?: AbortSignal): Promise<string> {
+    const user = userMsg.substring(0, 100);
+    const bot = botMsg.substring(0, 100);
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
-                contents: `Generate a very short (3-5 words) title for this conversation. User: ${userMsg.substring(0, 100)}. Bot: ${botMsg.substring(0, 100)}`,
-                config: { systemInstruction: "You are a helpful assistant. Return only the title text, no quotes." }
+        return await cachedResponse('generateConversationTitle', resolveModel('title'), { user, bot }, CACHE_TTL.week, () => withModelFallback('title', (model) => withStability(async () => {
+            const text = await getAIProvider().generate({
+                model,
+                contents: `Generate a very short (3-5 words) title for this conversation. User: ${user}. Bot: ${bot}`,
+                systemInstruction: "You are a helpful assistant. Return only the title text, no quotes.",
+                signal
             });
-            return response.text?.trim() || "New Transmission";
-        });
+            return text.trim() || "New Transmission";
+        }, signal)), (t) => t !== "New Transmission");
     } catch (e) {
         return "New Transmission";
     }
 }
 
-export async function generateExamQuestions(subject: string, chapter: string, type: string, languages: string[]): Promise<Question[]> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Folds turns that no longer fit the context budget into the conversation's
+ * rolling summary. Returns null when no new summary was produced, so the caller
+ * does not mark the turns as covered.
+ */
+export async function summarizeConversation(messages: Message[], previousSummary: string = '', signal?: AbortSignal): Promise<string | null> {
+    const transcript = messages
+        .filter(m => m.text && m.text.trim().length > 0)
+        .map(m => `${m.sender === 'user' ? 'User' : 'SigNify'}: ${m.text}`)
+        .join('\n');
+    if (!transcript) return previousSummary;
+    try {
+        return await withModelFallback('summary', (model) => withStability(async () => {
+            const text = await getAIProvider().generate({
+                model,
+                contents: `Existing summary: ${previousSummary || 'None'}\n\nNew turns:\n${clampToTokens(transcript, 16000)}`,
+                systemInstruction: "Update the existing summary of this conversation with the new turns. Keep facts, names, decisions and open questions. Reply with the summary only, under 200 words.",
+                signal
+            });
+            return text.trim() || null;
+        }, signal));
+    } catch (e) {
+        return null;
+    }
+}
+
+export async function generateExamQuestions(subject: string, chapter: string, type: string, languages: string[], signal?: AbortSignal): Promise<Question[]> {
     const prompt = `Generate 5 challenging questions for a ${subject} exam on ${chapter}. Exam Type: ${type}. Supported Languages: ${languages.join(', ')}.`;
     
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
+        return await withModelFallback('examGenerate', (model) => withStability(async () => {
+            const data = await getAIProvider().generateJSON<Question[]>({
+                model,
                 contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                question: { type: Type.STRING },
-                                type: { type: Type.STRING },
-                                options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                                modelAnswer: { type: Type.STRING }
-                            },
-                            required: ["question", "type"]
-                        }
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            question: { type: Type.STRING },
+                            type: { type: Type.STRING },
+                            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            modelAnswer: { type: Type.STRING }
+                        },
+                        required: ["question", "type"]
                     }
-                }
+                },
+                signal
             });
-            return JSON.parse(response.text || "[]");
-        });
+            return data || [];
+        }, signal));
     } catch (e) {
         console.error("Exam Generation Error:", e);
         return [];
     }
 }
 
-export async function evaluateExamAnswers(questions: Question[], answers: UserAnswer[], profile: any, setup: any): Promise<ExamReport> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function evaluateExamAnswers(questions: Question[], answers: UserAnswer[], profile: any, setup: any, signal?: AbortSignal): Promise<ExamReport> {
     const prompt = `Evaluate the following student's exam. 
     Questions: ${JSON.stringify(questions)}
     Answers: ${JSON.stringify(answers)}
@@ -341,100 +406,91 @@ export async function evaluateExamAnswers(questions: Question[], answers: UserAn
     Exam Info: ${JSON.stringify(setup)}`;
     
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRO_MODEL,
+        return await withModelFallback('examEvaluate', (model) => withStability(async () => {
+            const result = await getAIProvider().generateJSON({
+                model,
                 contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            results: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    marksObtained: { type: Type.NUMBER },
-                                    totalMarks: { type: Type.NUMBER },
-                                    percentage: { type: Type.NUMBER },
-                                    grade: { type: Type.STRING },
-                                    overallFeedback: { type: Type.STRING },
-                                    breakdown: {
-                                        type: Type.ARRAY,
-                                        items: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                question: { type: Type.STRING },
-                                                userAnswer: { type: Type.STRING },
-                                                modelAnswer: { type: Type.STRING },
-                                                isCorrect: { type: Type.BOOLEAN },
-                                                feedback: { type: Type.STRING }
-                                            }
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        results: {
+                            type: Type.OBJECT,
+                            properties: {
+                                marksObtained: { type: Type.NUMBER },
+                                totalMarks: { type: Type.NUMBER },
+                                percentage: { type: Type.NUMBER },
+                                grade: { type: Type.STRING },
+                                overallFeedback: { type: Type.STRING },
+                                breakdown: {
+                                    type: Type.ARRAY,
+                                    items: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            question: { type: Type.STRING },
+                                            userAnswer: { type: Type.STRING },
+                                            modelAnswer: { type: Type.STRING },
+                                            isCorrect: { type: Type.BOOLEAN },
+                                            feedback: { type: Type.STRING }
                                         }
                                     }
                                 }
                             }
                         }
                     }
-                }
-            });
-            const result = JSON.parse(response.text || "{}");
+                },
+                signal
+            }) || {};
             return {
                 id: Date.now().toString(),
                 studentInfo: profile,
                 examSetup: setup,
                 results: result.results
             };
-        });
+        }, signal));
     } catch (e) {
         console.error("Evaluation Error:", e);
         throw e;
     }
 }
 
-export async function getVerbsByInitial(initial: string): Promise<string[]> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function getVerbsByInitial(initial: string, signal?: AbortSignal): Promise<string[]> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
+        return await cachedResponse('getVerbsByInitial', resolveModel('verbs'), initial, CACHE_TTL.month, () => withModelFallback('verbs', (model) => withStability(async () => {
+            const data = await getAIProvider().generateJSON<string[]>({
+                model,
                 contents: `List 20 common English verbs starting with the letter ${initial}. Return as a JSON array of strings.`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
-                }
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+                signal
             });
-            return JSON.parse(response.text || "[]");
-        });
+            return data || [];
+        }, signal)), (verbs) => verbs.length > 0);
     } catch (e) {
         return [];
     }
 }
 
-export async function getVerbDetails(verb: string, language: string): Promise<any> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function getVerbDetails(verb: string, language: string, signal?: AbortSignal): Promise<any> {
     try {
-        return await withStability(async () => {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
+        return await cachedResponse('getVerbDetails', resolveModel('verbs'), { verb, language }, CACHE_TTL.month, () => withModelFallback('verbs', (model) => withStability(async () => {
+            const data = await getAIProvider().generateJSON({
+                model,
                 contents: `Provide complete grammatical details for the verb "${verb}" in ${language}.`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            base: { type: Type.STRING },
-                            past: { type: Type.STRING },
-                            pastParticiple: { type: Type.STRING },
-                            description: { type: Type.STRING },
-                            nounForm: { type: Type.STRING },
-                            adjectiveForm: { type: Type.STRING },
-                            usages: { type: Type.ARRAY, items: { type: Type.STRING } }
-                        }
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        base: { type: Type.STRING },
+                        past: { type: Type.STRING },
+                        pastParticiple: { type: Type.STRING },
+                        description: { type: Type.STRING },
+                        nounForm: { type: Type.STRING },
+                        adjectiveForm: { type: Type.STRING },
+                        usages: { type: Type.ARRAY, items: { type: Type.STRING } }
                     }
-                }
+                },
+                signal
             });
-            return JSON.parse(response.text || "{}");
-        });
+            return data || {};
+        }, signal)), (details) => !!details && Object.keys(details).length > 0);
     } catch (e) {
         return null;
     }
@@ -446,25 +502,18 @@ export async function* streamNotebookChatResponse(
     language: string,
     sources: NotebookSource[],
     userEmail?: string | null,
-    userProfileNotes?: string
-): AsyncGenerator<{ text?: string, error?: string }> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    userProfileNotes?: string,
+    signal?: AbortSignal
+): AsyncGenerator<ChatStreamChunk> {
     let sourceContext = "\n\n[NOTEBOOK SOURCES]\n";
     sources.forEach(s => sourceContext += `Source: ${s.name}\nContent: ${s.content.substring(0, 5000)}\n\n`);
 
-    const sys = `You are a research assistant. Answer based on the notebook sources. Use [Source: filename]. Language: ${language}. ${GLOBAL_CAPABILITIES}${sourceContext}[USER MEMORY] ${userProfileNotes || 'None'}`;
-
-    const contents = history.filter(m => m.text && m.text.trim().length > 0).map(m => ({ role: m.sender === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
-    contents.push({ role: 'user', parts: [{ text: prompt }] });
+    const sys = `You are a research assistant. Answer based on the notebook sources. Use [Source: filename]. Language: ${language}. ${GLOBAL_CAPABILITIES}${clampToTokens(sourceContext, SOURCE_CONTEXT_TOKENS)}[USER MEMORY] ${userProfileNotes || 'None'}`;
 
-    try {
-        const response = await ai.models.generateContentStream({ model: PRIMARY_MODEL, contents, config: { systemInstruction: sys } });
-        for await (const chunk of response) { yield { text: chunk.text || "" }; }
-    } catch (err: any) { yield { error: err.message }; }
+    yield* streamWithFallback('notebook', (model) => buildChatContext({ model, systemInstruction: sys, history, prompt: [{ text: prompt }] }), signal);
 }
 
-export async function generateNotebookOverview(sources: NotebookSource[], durationMinutes: number): Promise<string> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export async function generateNotebookOverview(sources: NotebookSource[], durationMinutes: number, signal?: AbortSignal): Promise<string> {
     let sourceContext = "";
     sources.forEach(s => sourceContext += `Source: ${s.name}\nContent: ${s.content.substring(0, 3000)}\n\n`);
     
@@ -475,14 +524,12 @@ export async function generateNotebookOverview(sources: NotebookSource[], durati
     
     Sources: ${sourceContext}`;
 
-    return await withStability(async () => {
-        const response = await ai.models.generateContent({
-            model: PRIMARY_MODEL,
-            contents: prompt,
-            config: { systemInstruction: "Expert educational scriptwriter." }
-        });
-        return response.text || "";
-    });
+    return await withModelFallback('overview', (model) => withStability(() => getAIProvider().generate({
+        model,
+        contents: prompt,
+        systemInstruction: "Expert educational scriptwriter.",
+        signal
+    }), signal));
 }
 
 export async function* streamVaultChatResponse(
@@ -491,19 +538,13 @@ export async function* streamVaultChatResponse(
     language: string,
     files: VaultFile[],
     userEmail?: string | null,
-    userProfileNotes?: string
-): AsyncGenerator<{ text?: string, error?: string }> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    userProfileNotes?: string,
+    signal?: AbortSignal
+): AsyncGenerator<ChatStreamChunk> {
     let sourceContext = "\n\n[VAULT FILES]\n";
     files.forEach(f => sourceContext += `File: ${f.name}\nContent: ${f.content.substring(0, 5000)}\n\n`);
 
-    const sys = `Neural archivist. Provide technical insights. Language: ${language}. ${GLOBAL_CAPABILITIES}${sourceContext}[USER MEMORY] ${userProfileNotes || 'None'}`;
+    const sys = `Neural archivist. Provide technical insights. Language: ${language}. ${GLOBAL_CAPABILITIES}${clampToTokens(sourceContext, SOURCE_CONTEXT_TOKENS)}[USER MEMORY] ${userProfileNotes || 'None'}`;
 
-    const contents = history.filter(m => m.text && m.text.trim().length > 0).map(m => ({ role: m.sender === 'user' ? 'user' : 'model', parts: [{ text: m.text }] }));
-    contents.push({ role: 'user', parts: [{ text: prompt }] });
-
-    try {
-        const response = await ai.models.generateContentStream({ model: PRIMARY_MODEL, contents, config: { systemInstruction: sys } });
-        for await (const chunk of response) { yield { text: chunk.text || "" }; }
-    } catch (err: any) { yield { error: err.message }; }
+    yield* streamWithFallback('vault', (model) => buildChatContext({ model, systemInstruction: sys, history, prompt: [{ text: prompt }] }), signal);
 }
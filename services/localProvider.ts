@@ -0,0 +1,111 @@
+import { Type } from "@google/genai";
+import { AIProvider, AITextRequest, AIContent } from './aiProvider';
+
+/**
+ * LOCAL STAND-IN ADAPTER
+ * Deterministic offline responses so the full UI runs without a network or key.
+ * Output depends only on the request, which keeps demos and UI tests repeatable.
+ */
+function hashString(input: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+function lastUserText(contents: string | AIContent[]): string {
+    if (typeof contents === 'string') return contents;
+    for (let i = contents.length - 1; i >= 0; i--) {
+        const text = contents[i].parts.map(p => p.text || '').join(' ').trim();
+        if (text) return text;
+    }
+    return '';
+}
+
+function composeReply(req: AITextRequest): string {
+    const prompt = lastUserText(req.contents);
+    const seed = hashString(`${req.model}|${prompt}`);
+    const openers = ['Acknowledged.', 'Understood.', 'Processing complete.', 'Signal received.'];
+    const snippet = prompt.length > 120 ? `${prompt.slice(0, 120)}...` : prompt;
+    return `${openers[seed % openers.length]} This is the SigNify local core (${req.model}) answering offline.\n\n` +
+        `**You said:** ${snippet || '(empty prompt)'}\n\n` +
+        `Reference code: LC-${(seed % 100000).toString().padStart(5, '0')}`;
+}
+
+function fromSchema(schema: any, seed: number, key: string): any {
+    if (!schema) return {};
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const out: Record<string, any> = {};
+            Object.keys(schema.properties || {}).forEach((prop, i) => {
+                out[prop] = fromSchema(schema.properties[prop], seed + i + 1, prop);
+            });
+            return out;
+        }
+        case Type.ARRAY:
+            return [0, 1, 2].map(i => fromSchema(schema.items, seed + i * 7, key));
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return seed % 101;
+        case Type.BOOLEAN:
+            return seed % 2 === 0;
+        default:
+            return `Local ${key || 'value'} ${seed % 1000}`;
+    }
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/** Short 24kHz mono PCM tone whose pitch and length follow the text. */
+function synthesizeTone(text: string): string {
+    const sampleRate = 24000;
+    const seconds = Math.min(6, 0.5 + text.length * 0.02);
+    const frequency = 220 + (hashString(text) % 440);
+    const samples = Math.floor(sampleRate * seconds);
+    const view = new DataView(new ArrayBuffer(samples * 2));
+    for (let i = 0; i < samples; i++) {
+        const envelope = Math.min(1, i / 2400, (samples - i) / 2400);
+        view.setInt16(i * 2, Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000 * envelope, true);
+    }
+    return toBase64(new Uint8Array(view.buffer));
+}
+
+export const localProvider: AIProvider = {
+    id: 'local',
+
+    async generate(req) {
+        return composeReply(req);
+    },
+
+    async *stream(req) {
+        const words = composeReply(req).split(/(\s+)/);
+        for (let i = 0; i < words.length; i += 6) {
+            await new Promise(r => setTimeout(r, 30));
+            req.signal?.throwIfAborted();
+            yield words.slice(i, i + 6).join('');
+        }
+    },
+
+    async generateJSON(req) {
+        return fromSchema(req.responseSchema, hashString(`${req.model}|${lastUserText(req.contents)}`), '');
+    },
+
+    async tts(req) {
+        return synthesizeTone(req.text);
+    },
+
+    async image(req) {
+        const hue = hashString(req.prompt) % 360;
+        const label = req.prompt.slice(0, 40).replace(/[<>&"]/g, '');
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="hsl(${hue},60%,30%)"/><text x="256" y="256" fill="#fff" font-family="monospace" font-size="16" text-anchor="middle">${label}</text></svg>`;
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    }
+};
@@ -0,0 +1,150 @@
+import { AIError, toAIError } from './aiErrors';
+import { MODEL_ROUTING_KEY } from '../utils/appUtils';
+
+/**
+ * MODEL ROUTING MATRIX
+ * Maps every AI feature (and each chat mode) to a model. Users override the
+ * defaults from the Model Routing screen; overrides live in localStorage.
+ * When a model is missing or not permitted for the key, calls fall through
+ * FALLBACK_CHAIN until one answers.
+ */
+export const TEXT_MODELS = ['gemini-flash-latest', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-3-pro-preview'];
+export const TTS_MODELS = ['gemini-2.5-flash-preview-tts'];
+export const IMAGE_MODELS = ['gemini-2.5-flash-image'];
+
+export const MODEL_LABELS: Record<string, string> = {
+    'gemini-flash-latest': 'Flash Core (Stable)',
+    'gemini-2.5-flash': 'Flash 2.5',
+    'gemini-2.5-pro': 'Pro 2.5',
+    'gemini-3-pro-preview': 'Pro 3.0 (Preview)',
+    'gemini-2.5-flash-preview-tts': 'Flash TTS',
+    'gemini-2.5-flash-image': 'Flash Image'
+};
+
+/** Models tried, in order, after the configured one is unavailable. */
+const FALLBACK_CHAIN = ['gemini-flash-latest', 'gemini-2.5-flash'];
+
+export type AIFeature =
+    | 'chat'
+    | 'creative'
+    | 'notebook'
+    | 'vault'
+    | 'vaultAnalysis'
+    | 'translator'
+    | 'examGenerate'
+    | 'examEvaluate'
+    | 'title'
+    | 'summary'
+    | 'verbs'
+    | 'overview'
+    | 'tts'
+    | 'image';
+
+export const CHAT_MODES = ['General', 'Technical', 'Creative', 'Academic', 'Linguistic'];
+
+export const FEATURE_LABELS: Record<AIFeature, string> = {
+    chat: 'Neural Chat (default)',
+    creative: 'Creative Studio',
+    notebook: 'LM Studio Notebook',
+    vault: 'Neural Vault Chat',
+    vaultAnalysis: 'Vault File Analysis',
+    translator: 'Translator',
+    examGenerate: 'Exam Generation',
+    examEvaluate: 'Exam Evaluation',
+    title: 'Conversation Titles',
+    summary: 'Context Summaries',
+    verbs: 'Verb Forms',
+    overview: 'Audio Overview Scripts',
+    tts: 'Speech Synthesis',
+    image: 'Image Synthesis'
+};
+
+export interface ModelRoutingConfig {
+    features: Record<AIFeature, string>;
+    /** Per chat mode override; falls back to `features.chat` when unset. */
+    chatModes: Record<string, string>;
+}
+
+export const DEFAULT_MODEL_ROUTING: ModelRoutingConfig = {
+    features: {
+        chat: 'gemini-flash-latest',
+        creative: 'gemini-flash-latest',
+        notebook: 'gemini-flash-latest',
+        vault: 'gemini-flash-latest',
+        vaultAnalysis: 'gemini-flash-latest',
+        translator: 'gemini-flash-latest',
+        examGenerate: 'gemini-flash-latest',
+        examEvaluate: 'gemini-3-pro-preview',
+        title: 'gemini-flash-latest',
+        summary: 'gemini-flash-latest',
+        verbs: 'gemini-flash-latest',
+        overview: 'gemini-flash-latest',
+        tts: 'gemini-2.5-flash-preview-tts',
+        image: 'gemini-2.5-flash-image'
+    },
+    chatModes: {}
+};
+
+/** Which catalog a feature draws its models from. */
+export function modelsForFeature(feature: AIFeature): string[] {
+    if (feature === 'tts') return TTS_MODELS;
+    if (feature === 'image') return IMAGE_MODELS;
+    return TEXT_MODELS;
+}
+
+export function getModelRouting(): ModelRoutingConfig {
+    try {
+        const saved = JSON.parse(localStorage.getItem(MODEL_ROUTING_KEY) || '{}');
+        return {
+            features: { ...DEFAULT_MODEL_ROUTING.features, ...(saved.features || {}) },
+            chatModes: { ...(saved.chatModes || {}) }
+        };
+    } catch (e) {
+        return DEFAULT_MODEL_ROUTING;
+    }
+}
+
+export function saveModelRouting(config: ModelRoutingConfig) {
+    localStorage.setItem(MODEL_ROUTING_KEY, JSON.stringify(config));
+}
+
+export function resolveModel(feature: AIFeature, chatMode?: string): string {
+    const config = getModelRouting();
+    const model = (feature === 'chat' && chatMode && config.chatModes[chatMode]) || config.features[feature];
+    return modelsForFeature(feature).includes(model) ? model : DEFAULT_MODEL_ROUTING.features[feature];
+}
+
+/** Models reported missing this session are skipped until reload. */
+const unavailableModels = new Set<string>();
+
+export function modelChain(feature: AIFeature, chatMode?: string): string[] {
+    const primary = resolveModel(feature, chatMode);
+    if (feature === 'tts' || feature === 'image') return [primary];
+    const chain = [primary, ...FALLBACK_CHAIN.filter(m => m !== primary)];
+    const available = chain.filter(m => !unavailableModels.has(m));
+    return available.length > 0 ? available : chain;
+}
+
+export function markModelUnavailable(model: string) {
+    unavailableModels.add(model);
+}
+
+/**
+ * Runs `call` with each model in the feature's chain until one succeeds.
+ * Only `model-unavailable` errors advance the chain; anything else is rethrown.
+ */
+export async function withModelFallback<T>(feature: AIFeature, call: (model: string) => Promise<T>, chatMode?: string): Promise<T> {
+    let lastErr: AIError | undefined;
+    for (const model of modelChain(feature, chatMode)) {
+        try {
+            return await call(model);
+        } catch (err) {
+            const aiErr = toAIError(err);
+            if (aiErr.code !== 'model-unavailable') throw aiErr;
+            console.warn(`SigNify Model Routing: ${model} unavailable for ${feature}, trying next model.`);
+            markModelUnavailable(model);
+            lastErr = aiErr;
+        }
+    }
+    throw lastErr;
+}
@@ -0,0 +1,68 @@
+import { UserRole } from '../types';
+
+/**
+ * ACCESS CONTROL MATRIX
+ * What each role may open and do. Shared by the client (App.renderPage, the
+ * main menu) and the API routes, so a hidden button and a rejected request
+ * always agree. Pages missing from PAGE_PERMISSIONS are open to everyone,
+ * guests included.
+ */
+export const USER_ROLES: UserRole[] = ['student', 'teacher', 'admin', 'owner'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    student: 'Student',
+    teacher: 'Teacher',
+    admin: 'Admin',
+    owner: 'Owner'
+};
+
+export type Permission =
+    | 'exams.author'        // generate and sit exams
+    | 'exams.review'        // look up any student's exam history by roll number
+    | 'admin.panel'         // usage statistics
+    | 'users.manage'        // list accounts
+    | 'users.delete'
+    | 'roles.assign'        // limited to roles below the caller's own
+    | 'tiers.grant'
+    | 'codes.mint'          // sign batches of single-use subscription codes
+    | 'features.unlimited'; // skip subscription gating and use the top proxy limits
+
+const STUDENT: Permission[] = ['exams.author'];
+const TEACHER: Permission[] = [...STUDENT, 'exams.review'];
+const ADMIN: Permission[] = [...TEACHER, 'admin.panel', 'users.manage', 'users.delete', 'roles.assign', 'tiers.grant', 'codes.mint', 'features.unlimited'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    student: STUDENT,
+    teacher: TEACHER,
+    admin: ADMIN,
+    owner: ADMIN
+};
+
+export const PAGE_PERMISSIONS: Record<string, Permission> = {
+    exam: 'exams.author',
+    examDashboard: 'exams.review',
+    adminPanel: 'admin.panel',
+    userManagement: 'users.manage'
+};
+
+/** Roles saved before the role model (`user`) or missing entirely count as students. */
+export function normalizeRole(role: unknown): UserRole {
+    return USER_ROLES.includes(role as UserRole) ? role as UserRole : 'student';
+}
+
+export function can(role: UserRole | null | undefined, permission: Permission): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** Guests (no role) can open every page that is not in the matrix. */
+export function canOpenPage(role: UserRole | null | undefined, page: string): boolean {
+    const permission = PAGE_PERMISSIONS[page];
+    return !permission || can(role, permission);
+}
+
+/** Roles the caller may hand out or take away: strictly below their own, except that owners may assign anything. */
+export function assignableRoles(role: UserRole | null | undefined): UserRole[] {
+    if (!can(role, 'roles.assign')) return [];
+    if (role === 'owner') return USER_ROLES;
+    return USER_ROLES.slice(0, USER_ROLES.indexOf(role!));
+}
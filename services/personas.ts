@@ -0,0 +1,138 @@
+import { Persona, PersonaAttachment } from '../types';
+import { PERSONAS_KEY } from '../utils/appUtils';
+import { CHAT_MODES } from './modelRouting';
+
+/**
+ * AICHAT PERSONAS
+ * A persona is the chat's setup: extra system instructions, reply language,
+ * temperature, which attachment buttons show and the starter prompts of an empty
+ * chat. The five chat modes are the built-ins (empty instructions keep the stock
+ * prompt); custom personas live in localStorage and pick a mode for model routing.
+ * Each conversation keeps a copy of its persona, see Conversation.persona.
+ */
+export const PERSONA_LANGUAGES = ['English', 'Urdu', 'Sindhi', 'Arabic', 'French', 'German', 'Spanish'];
+export const PERSONA_ATTACHMENTS: PersonaAttachment[] = ['upload', 'camera'];
+export const PERSONA_ATTACHMENT_LABELS: Record<PersonaAttachment, string> = { upload: 'File upload', camera: 'Camera' };
+
+export const MAX_STARTER_PROMPTS = 6;
+const MAX_NAME_LENGTH = 40;
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+const MAX_PROMPT_LENGTH = 200;
+
+const PERSONA_FILE_FORMAT = 'signify-personas';
+const PERSONA_FILE_VERSION = 1;
+
+const BUILT_IN_STARTERS: Record<string, string[]> = {
+    General: ["Plan my study week", "Explain this topic like I'm new to it", "Summarize my vault notes"],
+    Technical: ["Debug this code", "Compare two approaches to a problem", "Explain how this algorithm works"],
+    Creative: ["Write a short story opening", "Brainstorm names for a project", "Turn my notes into a poem"],
+    Academic: ["Outline an essay", "Quiz me on a chapter", "Check my argument for gaps"],
+    Linguistic: ["Translate a sentence to Sindhi", "Explain this Urdu grammar point", "Correct my writing"]
+};
+
+export const BUILT_IN_PERSONAS: Persona[] = CHAT_MODES.map(mode => ({
+    id: `mode:${mode.toLowerCase()}`,
+    name: mode,
+    instructions: '',
+    language: 'English',
+    attachments: [...PERSONA_ATTACHMENTS],
+    starterPrompts: BUILT_IN_STARTERS[mode] || [],
+    baseMode: mode,
+    builtIn: true
+}));
+
+export const DEFAULT_PERSONA = BUILT_IN_PERSONAS[0];
+
+export function loadCustomPersonas(): Persona[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PERSONAS_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter(p => typeof validatePersona(p) !== 'string') : [];
+    } catch (e) {
+        return [];
+    }
+}
+
+export function saveCustomPersonas(personas: Persona[]) {
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas.filter(p => !p.builtIn)));
+}
+
+export const allPersonas = (): Persona[] => [...BUILT_IN_PERSONAS, ...loadCustomPersonas()];
+
+export const findPersona = (id: string | undefined): Persona | undefined => id ? allPersonas().find(p => p.id === id) : undefined;
+
+export const newPersonaId = () => `persona:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/** A custom starting point; copying a built-in keeps its settings under a new name. */
+export function draftPersona(from?: Persona): Persona {
+    const base = from || DEFAULT_PERSONA;
+    return {
+        ...base,
+        id: newPersonaId(),
+        name: from ? `${from.name} copy`.slice(0, MAX_NAME_LENGTH) : 'New persona',
+        attachments: [...base.attachments],
+        starterPrompts: [...base.starterPrompts],
+        builtIn: undefined
+    };
+}
+
+/** Returns the cleaned persona, or a message saying what is wrong with it. */
+export function validatePersona(raw: any): Persona | string {
+    if (!raw || typeof raw !== 'object') return "Not a persona object.";
+    const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!name) return "A persona needs a name.";
+    if (raw.instructions !== undefined && typeof raw.instructions !== 'string') return `"${name}": instructions must be text.`;
+    if ((raw.instructions || '').length > MAX_INSTRUCTIONS_LENGTH) return `"${name}": instructions are longer than ${MAX_INSTRUCTIONS_LENGTH} characters.`;
+    if (raw.temperature !== undefined && raw.temperature !== null && (typeof raw.temperature !== 'number' || raw.temperature < 0 || raw.temperature > 2)) {
+        return `"${name}": temperature must be a number between 0 and 2.`;
+    }
+    const attachments = Array.isArray(raw.attachments) ? raw.attachments : PERSONA_ATTACHMENTS;
+    const starterPrompts = Array.isArray(raw.starterPrompts) ? raw.starterPrompts : [];
+    if (starterPrompts.some((p: any) => typeof p !== 'string')) return `"${name}": starter prompts must be text.`;
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : newPersonaId(),
+        name,
+        instructions: (raw.instructions || '').trim(),
+        language: PERSONA_LANGUAGES.includes(raw.language) ? raw.language : 'English',
+        ...(typeof raw.temperature === 'number' && { temperature: raw.temperature }),
+        attachments: PERSONA_ATTACHMENTS.filter(a => attachments.includes(a)),
+        starterPrompts: starterPrompts.map((p: string) => p.trim().slice(0, MAX_PROMPT_LENGTH)).filter(Boolean).slice(0, MAX_STARTER_PROMPTS),
+        baseMode: CHAT_MODES.includes(raw.baseMode) ? raw.baseMode : 'General',
+        ...(raw.builtIn === true && { builtIn: true })
+    };
+}
+
+export function personasToJson(personas: Persona[]): string {
+    const exported = personas.map(({ builtIn, ...persona }) => persona);
+    return JSON.stringify({ format: PERSONA_FILE_FORMAT, version: PERSONA_FILE_VERSION, personas: exported }, null, 2);
+}
+
+/**
+ * Reads an exported file, a bare array or a single persona. Invalid entries are
+ * reported in `errors` and skipped. Imports are always custom: an id that belongs
+ * to a built-in gets a fresh one.
+ */
+export function parsePersonaFile(text: string): { personas: Persona[]; errors: string[] } {
+    const raw = JSON.parse(text);
+    const list: any[] = Array.isArray(raw) ? raw : Array.isArray(raw?.personas) ? raw.personas : [raw];
+    const personas: Persona[] = [];
+    const errors: string[] = [];
+    list.forEach(item => {
+        const result = validatePersona(item);
+        if (typeof result === 'string') {
+            errors.push(result);
+            return;
+        }
+        const { builtIn, ...persona } = result;
+        personas.push(BUILT_IN_PERSONAS.some(b => b.id === persona.id) ? { ...persona, id: newPersonaId() } : persona);
+    });
+    return { personas, errors };
+}
+
+/** Adds imported personas; one with the id of an existing custom persona replaces it. */
+export function importPersonas(imported: Persona[]): Persona[] {
+    const byId = new Map(loadCustomPersonas().map(p => [p.id, p]));
+    imported.forEach(p => byId.set(p.id, p));
+    const personas = Array.from(byId.values());
+    saveCustomPersonas(personas);
+    return personas;
+}
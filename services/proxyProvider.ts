@@ -0,0 +1,122 @@
+import { AIProvider, AITextRequest } from './aiProvider';
+import { baseConfig, jsonConfig, speechConfig } from './geminiProvider';
+import { AIError, isAIErrorCode, parseJSONResponse, toAIError } from './aiErrors';
+import { authHeaders } from './authService';
+
+/**
+ * PROXY ADAPTER
+ * Sends every request to the serverless route in api/proxy.ts so the API key
+ * never leaves the server. Enabled with AI_TRANSPORT=proxy at build time.
+ */
+const PROXY_URL = process.env.AI_PROXY_URL || '/api/proxy';
+
+/** The proxy takes the caller and their tier from the session token. */
+function proxyHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return { 'Content-Type': 'application/json', ...authHeaders(), ...extra };
+}
+
+/** The proxy reports AIError codes directly; its own gate and throttle codes are mapped here. */
+function proxyError(res: Response, data: any): AIError {
+    const message = `Proxy ${res.status}: ${data.error || res.statusText}`;
+    const code = isAIErrorCode(data.code) ? data.code
+        : data.code === 'rate_limited' ? 'quota'
+        : data.code === 'invalid_request' && data.field === 'model' ? 'model-unavailable'
+        : toAIError({ status: res.status, message }).code;
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    return new AIError(code, message, { status: res.status, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined });
+}
+
+async function callProxy(body: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const res = await fetch(PROXY_URL, {
+        method: 'POST',
+        headers: proxyHeaders(),
+        body: JSON.stringify(body),
+        signal
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw proxyError(res, data);
+    }
+    return data;
+}
+
+/**
+ * Reads the proxy's server-sent events and yields the same { text?, error? }
+ * chunks the chat components already consume from the stream* service functions.
+ */
+export async function* streamFromProxy(body: Record<string, any>, signal?: AbortSignal): AsyncGenerator<{ text?: string, error?: AIError }> {
+    const res = await fetch(PROXY_URL, {
+        method: 'POST',
+        headers: proxyHeaders({ 'Accept': 'text/event-stream' }),
+        body: JSON.stringify({ ...body, type: 'stream' }),
+        signal
+    });
+    if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        yield { error: proxyError(res, data) };
+        return;
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+        for (const event of events) {
+            const data = event.split('\n').filter(l => l.startsWith('data:')).map(l => l.slice(5).trim()).join('');
+            if (!data) continue;
+            if (data === '[DONE]') return;
+            const frame = JSON.parse(data);
+            yield frame.error ? { error: new AIError(isAIErrorCode(frame.code) ? frame.code : 'unknown', frame.error) } : { text: frame.text };
+        }
+    }
+}
+
+function textBody(req: AITextRequest, config: Record<string, any>) {
+    return { type: 'text', model: req.model, contents: req.contents, config };
+}
+
+export const proxyProvider: AIProvider = {
+    id: 'proxy',
+
+    async generate(req) {
+        const data = await callProxy(textBody(req, baseConfig(req)), req.signal);
+        return data.text || "";
+    },
+
+    async *stream(req) {
+        for await (const chunk of streamFromProxy(textBody(req, baseConfig(req)), req.signal)) {
+            if (chunk.error) throw chunk.error;
+            yield chunk.text || "";
+        }
+    },
+
+    async generateJSON(req) {
+        const data = await callProxy(textBody(req, jsonConfig(req)), req.signal);
+        return data.text ? parseJSONResponse(data.text) : null;
+    },
+
+    async tts(req) {
+        const data = await callProxy({
+            type: 'tts',
+            model: req.model,
+            contents: [{ parts: [{ text: req.text }] }],
+            config: { speechConfig: speechConfig(req) }
+        }, req.signal);
+        return data.audioData;
+    },
+
+    async image(req) {
+        const data = await callProxy({
+            type: 'image',
+            model: req.model,
+            contents: { parts: [{ text: req.prompt }] },
+            config: { imageConfig: { aspectRatio: req.aspectRatio || "1:1" } }
+        }, req.signal);
+        return data.imageUrl;
+    }
+};
@@ -0,0 +1,376 @@
+import { Conversation, Message, VaultFile, VaultTask, ExamReport, InProgressExamSession, LinguisticRule } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+import { createReport, legacyKeyToRecords, processRecord, recordMigrationReport, SCHEMA_VERSION } from './dataMigrations';
+
+/**
+ * NEURAL DATA REPOSITORY
+ * Typed access to user data in IndexedDB, one object store per entity. Writes are
+ * queued and committed together a moment later, so a streamed reply updates one
+ * record per flush instead of rewriting the whole history per chunk. Reads flush
+ * first and always see queued writes. Legacy localStorage blobs are migrated into
+ * the stores (and removed) the first time the database is opened in a session.
+ * Version bumps upgrade existing records through services/dataMigrations.ts;
+ * records an upgrade cannot repair are moved to the quarantine store, not dropped.
+ */
+const DB_NAME = 'signify_data';
+const DB_VERSION = 3;
+
+/** Record schema (see dataMigrations) held by each database version. */
+const DB_SCHEMA_VERSIONS: Record<number, number> = { 1: 3, 2: 4, 3: SCHEMA_VERSION };
+
+/** Legacy localStorage blobs predate the repository and map onto v3 records. */
+const LEGACY_SCHEMA_VERSION = 3;
+const FLUSH_DELAY_MS = 400;
+const EXAM_HISTORY_LIMIT = 50;
+const LINGUISTIC_TRAINING_LIMIT = 1000;
+
+export const STORE_NAMES = ['conversations', 'chatThreads', 'savedMessages', 'vault', 'examHistory', 'examSessions', 'linguistic'] as const;
+export type StoreName = typeof STORE_NAMES[number];
+
+export interface VaultData {
+    files: VaultFile[];
+    tasks: VaultTask[];
+    messages: Message[];
+}
+
+type ConversationRecord = Conversation & { owner: string };
+type ChatThreadRecord = { owner: string; thread: string; messages: Message[] };
+type SavedMessageRecord = Message & { owner: string; savedAt: number };
+type VaultRecord = VaultData & { owner: string };
+/** `owner` is the ownerKey of the account signed in when the report was saved; older reports have none. */
+export type ExamReportRecord = ExamReport & { rollNo: string; savedAt: number; owner?: string };
+type ExamSessionRecord = InProgressExamSession & { rollNo: string };
+type LinguisticRecord = { kind: 'rules' | 'training'; entries: any[] };
+
+/** A record a migration rejected, kept as it was stored so it can still be exported. */
+export interface QuarantinedRecord {
+    id?: number;
+    store: StoreName;
+    record: any;
+    reasons: string[];
+    quarantinedAt: number;
+}
+
+/** Storage owner for a signed-in email, matching the suffix of the legacy keys. */
+export function ownerKey(email?: string | null): string {
+    return (email || 'global').replace(/[@.]/g, '_');
+}
+
+function upgrade(db: IDBDatabase, oldVersion: number, tx: IDBTransaction) {
+    if (oldVersion < 3) db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true });
+    if (oldVersion >= 1 && DB_SCHEMA_VERSIONS[oldVersion] < SCHEMA_VERSION) upgradeStoredRecords(tx, DB_SCHEMA_VERSIONS[oldVersion]);
+    if (oldVersion < 1) {
+        db.createObjectStore('conversations', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+        db.createObjectStore('chatThreads', { keyPath: ['owner', 'thread'] });
+        db.createObjectStore('savedMessages', { keyPath: ['owner', 'id'] }).createIndex('owner', 'owner');
+        db.createObjectStore('vault', { keyPath: 'owner' });
+        db.createObjectStore('examHistory', { keyPath: 'id' }).createIndex('rollNo', 'rollNo');
+        db.createObjectStore('examSessions', { keyPath: 'rollNo' });
+        db.createObjectStore('linguistic', { keyPath: 'kind' });
+    }
+}
+
+let ready: Promise<IDBDatabase> | null = null;
+
+function openRepository(): Promise<IDBDatabase> {
+    if (!ready) {
+        ready = openDatabase(DB_NAME, DB_VERSION, upgrade).then(async (db) => {
+            await migrateLegacyStorage(db);
+            return db;
+        });
+        ready.catch(() => { ready = null; });
+    }
+    return ready;
+}
+
+// --- MIGRATIONS ---
+
+/**
+ * Moves every legacy key into the stores in a single transaction and removes the
+ * keys only after it commits, so an interrupted migration simply runs again.
+ * Also picks up legacy keys written later by restoring an old backup.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+    const migrated: string[] = [];
+    const batches: { store: StoreName; records: any[] }[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        const batch = key ? legacyKeyToRecords(key, localStorage.getItem(key)) : null;
+        if (!key || !batch) continue;
+        migrated.push(key);
+        batches.push(batch);
+    }
+    if (migrated.length === 0) return;
+
+    const report = createReport(LEGACY_SCHEMA_VERSION);
+    const tx = db.transaction([...STORE_NAMES, 'quarantine'], 'readwrite');
+    const quarantine = tx.objectStore('quarantine');
+    batches.forEach(({ store, records }) => records.forEach(r => {
+        const upgraded = processRecord(report, store, r, LEGACY_SCHEMA_VERSION, reasons => quarantineRecord(quarantine, store, r, reasons));
+        if (upgraded) tx.objectStore(store).put(upgraded);
+    }));
+    await transactionDone(tx);
+    migrated.forEach(key => localStorage.removeItem(key));
+    recordMigrationReport(report);
+    console.info(`SigNify Storage: migrated ${migrated.length} legacy keys to IndexedDB.`);
+}
+
+function quarantineRecord(quarantine: IDBObjectStore, store: StoreName, record: any, reasons: string[]) {
+    quarantine.add({ store, record, reasons, quarantinedAt: Date.now() } as QuarantinedRecord);
+}
+
+/** Runs inside the version-change transaction; rejected records are quarantined and reported. */
+function upgradeStoredRecords(tx: IDBTransaction, fromVersion: number) {
+    const report = createReport(fromVersion);
+    const quarantine = tx.objectStore('quarantine');
+    STORE_NAMES.forEach(store => {
+        const objectStore = tx.objectStore(store);
+        const request = objectStore.getAll();
+        // Rewrite the whole store, since normalising ids can change a record's key
+        request.onsuccess = () => {
+            objectStore.clear();
+            request.result.forEach(record => {
+                const upgraded = processRecord(report, store, record, fromVersion, reasons => quarantineRecord(quarantine, store, record, reasons));
+                if (upgraded !== null) objectStore.put(upgraded);
+            });
+        };
+    });
+    tx.addEventListener('complete', () => recordMigrationReport(report));
+}
+
+// --- WRITE QUEUE ---
+
+interface PendingWrite {
+    store: StoreName;
+    key: IDBValidKey;
+    /** Undefined deletes the record. */
+    value?: any;
+}
+
+const pendingWrites = new Map<string, PendingWrite>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> = Promise.resolve();
+
+/** Later writes to the same record replace earlier ones still waiting in the queue. */
+function queueWrite(write: PendingWrite) {
+    pendingWrites.set(`${write.store}|${JSON.stringify(write.key)}`, write);
+    if (!flushTimer) flushTimer = setTimeout(() => { flushWrites(); }, FLUSH_DELAY_MS);
+}
+
+/** Commits every queued write in one transaction. Safe to call at any time. */
+export function flushWrites(): Promise<void> {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    flushing = flushing.then(async () => {
+        if (pendingWrites.size === 0) return;
+        const writes = Array.from(pendingWrites.values());
+        pendingWrites.clear();
+        const db = await openRepository();
+        const tx = db.transaction(Array.from(new Set(writes.map(w => w.store))), 'readwrite');
+        writes.forEach(w => w.value === undefined ? tx.objectStore(w.store).delete(w.key) : tx.objectStore(w.store).put(w.value));
+        await transactionDone(tx);
+    }).catch(e => console.error("SigNify Storage: write failed", e));
+    return flushing;
+}
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { flushWrites(); });
+    document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') flushWrites();
+    });
+}
+
+async function readStore<T>(store: StoreName, read: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+    await flushWrites();
+    const db = await openRepository();
+    return requestToPromise(read(db.transaction(store).objectStore(store)));
+}
+
+function strip<T extends object>(record: T, ...keys: string[]): any {
+    const copy: any = { ...record };
+    keys.forEach(k => delete copy[k]);
+    return copy;
+}
+
+// --- CONVERSATIONS (AIChat) ---
+
+export async function loadConversations(email?: string | null): Promise<Conversation[]> {
+    const records: ConversationRecord[] = await readStore('conversations', s => s.index('owner').getAll(ownerKey(email)));
+    return records.map(r => strip(r, 'owner')).sort((a: Conversation, b: Conversation) => b.lastUpdated - a.lastUpdated);
+}
+
+export function saveConversation(email: string | null | undefined, conversation: Conversation) {
+    const owner = ownerKey(email);
+    queueWrite({ store: 'conversations', key: [owner, conversation.id], value: { ...conversation, owner } });
+}
+
+export function deleteConversation(email: string | null | undefined, id: string) {
+    queueWrite({ store: 'conversations', key: [ownerKey(email), id] });
+}
+
+// --- CHAT THREADS (ChatComponent, notebook chat) ---
+
+/** Thread ids of the single-thread chats. */
+export const CHAT_THREADS = { creative: 'creative_studio', notebook: 'notebook_chat' } as const;
+
+export async function loadChatThread(email: string | null | undefined, thread: string): Promise<Message[]> {
+    const record: ChatThreadRecord | undefined = await readStore('chatThreads', s => s.get([ownerKey(email), thread]));
+    return record?.messages || [];
+}
+
+export function saveChatThread(email: string | null | undefined, thread: string, messages: Message[]) {
+    const owner = ownerKey(email);
+    queueWrite({ store: 'chatThreads', key: [owner, thread], value: { owner, thread, messages } });
+}
+
+// --- SAVED MESSAGES ---
+
+/** Newest first. */
+export async function loadSavedMessages(email?: string | null): Promise<Message[]> {
+    const records: SavedMessageRecord[] = await readStore('savedMessages', s => s.index('owner').getAll(ownerKey(email)));
+    return records.sort((a, b) => b.savedAt - a.savedAt).map(r => strip(r, 'owner', 'savedAt'));
+}
+
+export async function countSavedMessages(email?: string | null): Promise<number> {
+    return readStore('savedMessages', s => s.index('owner').count(ownerKey(email)));
+}
+
+export async function isMessageSaved(email: string | null | undefined, id: string): Promise<boolean> {
+    const record = await readStore('savedMessages', s => s.getKey([ownerKey(email), id]));
+    return record !== undefined;
+}
+
+export function saveMessage(email: string | null | undefined, message: Message) {
+    const owner = ownerKey(email);
+    queueWrite({ store: 'savedMessages', key: [owner, message.id], value: { ...message, owner, savedAt: Date.now() } });
+}
+
+export function unsaveMessage(email: string | null | undefined, id: string) {
+    queueWrite({ store: 'savedMessages', key: [ownerKey(email), id] });
+}
+
+// --- NEURAL VAULT ---
+
+export async function loadVault(email?: string | null): Promise<VaultData> {
+    const record: VaultRecord | undefined = await readStore('vault', s => s.get(ownerKey(email)));
+    return { files: record?.files || [], tasks: record?.tasks || [], messages: record?.messages || [] };
+}
+
+export function saveVault(email: string | null | undefined, data: VaultData) {
+    const owner = ownerKey(email);
+    queueWrite({ store: 'vault', key: owner, value: { ...data, owner } });
+}
+
+// --- EXAMS ---
+
+/** Newest first. */
+export async function loadExamHistory(rollNo: string): Promise<ExamReport[]> {
+    const records: ExamReportRecord[] = await readStore('examHistory', s => s.index('rollNo').getAll(rollNo));
+    return records.sort((a, b) => b.savedAt - a.savedAt).map(r => strip(r, 'rollNo', 'savedAt'));
+}
+
+export async function loadExamReport(id: string): Promise<ExamReport | null> {
+    const record: ExamReportRecord | undefined = await readStore('examHistory', s => s.get(id));
+    return record ? strip(record, 'rollNo', 'savedAt') : null;
+}
+
+/** Stores a report and trims the student's history to the newest EXAM_HISTORY_LIMIT. */
+export async function addExamReport(rollNo: string, report: ExamReport, email?: string | null): Promise<void> {
+    queueWrite({ store: 'examHistory', key: report.id, value: { ...report, rollNo, savedAt: Date.now(), ...(email && { owner: ownerKey(email) }) } });
+    const history = await loadExamHistory(rollNo);
+    history.slice(EXAM_HISTORY_LIMIT).forEach(r => queueWrite({ store: 'examHistory', key: r.id }));
+}
+
+export async function loadExamSession(rollNo: string): Promise<InProgressExamSession | null> {
+    const record: ExamSessionRecord | undefined = await readStore('examSessions', s => s.get(rollNo));
+    return record ? strip(record, 'rollNo') : null;
+}
+
+/** Every stored report across roll numbers; sync keeps only the signed-in account's. */
+export function loadAllExamReports(): Promise<ExamReportRecord[]> {
+    return readStore('examHistory', s => s.getAll());
+}
+
+export function putExamReport(record: ExamReportRecord) {
+    queueWrite({ store: 'examHistory', key: record.id, value: record });
+}
+
+export function deleteExamReport(id: string) {
+    queueWrite({ store: 'examHistory', key: id });
+}
+
+export function saveExamSession(rollNo: string, session: InProgressExamSession) {
+    queueWrite({ store: 'examSessions', key: rollNo, value: { ...session, rollNo } });
+}
+
+export function clearExamSession(rollNo: string) {
+    queueWrite({ store: 'examSessions', key: rollNo });
+}
+
+// --- LINGUISTIC MEMORY ---
+
+async function loadLinguistic(kind: LinguisticRecord['kind']): Promise<any[]> {
+    const record: LinguisticRecord | undefined = await readStore('linguistic', s => s.get(kind));
+    return record?.entries || [];
+}
+
+export function loadLinguisticRules(): Promise<LinguisticRule[]> {
+    return loadLinguistic('rules');
+}
+
+export function saveLinguisticRules(rules: LinguisticRule[]) {
+    queueWrite({ store: 'linguistic', key: 'rules', value: { kind: 'rules', entries: rules } });
+}
+
+export function loadLinguisticTraining(): Promise<string[]> {
+    return loadLinguistic('training');
+}
+
+let trainingAppends: Promise<void> = Promise.resolve();
+
+/** Appends are chained so back-to-back calls do not read the same list and drop an entry. */
+export function appendLinguisticTraining(text: string): Promise<void> {
+    trainingAppends = trainingAppends.then(async () => {
+        const entries = await loadLinguisticTraining();
+        entries.push(text);
+        queueWrite({ store: 'linguistic', key: 'training', value: { kind: 'training', entries: entries.slice(-LINGUISTIC_TRAINING_LIMIT) } });
+    }).catch(e => console.error("SigNify Storage: linguistic memory update failed", e));
+    return trainingAppends;
+}
+
+// --- BACKUP ---
+
+export type RepositorySnapshot = Partial<Record<StoreName, any[]>>;
+
+/** Every record in every store, for the profile backup. */
+export async function exportRepository(): Promise<RepositorySnapshot> {
+    await flushWrites();
+    const db = await openRepository();
+    const tx = db.transaction([...STORE_NAMES]);
+    const records = await Promise.all(STORE_NAMES.map(store => requestToPromise(tx.objectStore(store).getAll())));
+    const snapshot: RepositorySnapshot = {};
+    STORE_NAMES.forEach((store, i) => { snapshot[store] = records[i]; });
+    return snapshot;
+}
+
+/** Records set aside by storage upgrades, oldest first; the Backup Center exports them. */
+export async function loadQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    const db = await openRepository();
+    return requestToPromise(db.transaction('quarantine').objectStore('quarantine').getAll());
+}
+
+/** Empties the given stores (all by default), then writes the snapshot's records for them. */
+export async function restoreRepository(snapshot: RepositorySnapshot = {}, stores: readonly StoreName[] = STORE_NAMES): Promise<void> {
+    if (stores.length === 0) return;
+    await flushWrites();
+    const db = await openRepository();
+    const tx = db.transaction([...stores], 'readwrite');
+    for (const store of stores) {
+        const objectStore = tx.objectStore(store);
+        objectStore.clear();
+        (snapshot[store] || []).forEach(record => objectStore.put(record));
+    }
+    await transactionDone(tx);
+}
@@ -0,0 +1,139 @@
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+
+/**
+ * RESPONSE CACHE
+ * Persists results of deterministic lookups (verbs, translations, titles) in
+ * IndexedDB, keyed by function, model and normalised input. Entries expire after
+ * their TTL and the least recently used are evicted past the size limits.
+ * Any storage failure falls through to a live call.
+ */
+const DB_NAME = 'signify_response_cache';
+const STORE = 'responses';
+/** Bumped when the key format changes; older entries stop matching and age out. */
+const KEY_VERSION = 2;
+const MAX_ENTRIES = 500;
+const MAX_BYTES = 5 * 1024 * 1024;
+
+export const CACHE_TTL = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+};
+
+interface CacheEntry {
+    key: string;
+    fn: string;
+    model: string;
+    value: any;
+    size: number;
+    createdAt: number;
+    expiresAt: number;
+    lastAccess: number;
+}
+
+function openCache(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, 1, (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+    });
+}
+
+/**
+ * Surrounding and repeated whitespace do not change the answer for these lookups.
+ * Case does ("Turkey" and "turkey", German nouns), so it is kept.
+ */
+function normalizeInput(input: unknown): string {
+    return JSON.stringify(input, (_, v) => typeof v === 'string' ? v.trim().replace(/\s+/g, ' ') : v);
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+    const db = await openCache();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entry: CacheEntry | undefined = await requestToPromise(store.get(key));
+    if (entry) {
+        if (entry.expiresAt < Date.now()) {
+            store.delete(key);
+            await transactionDone(tx);
+            return undefined;
+        }
+        store.put({ ...entry, lastAccess: Date.now() });
+    }
+    await transactionDone(tx);
+    return entry;
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+    const db = await openCache();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+    await evict();
+}
+
+/** Drops expired entries, then least recently used ones until both limits hold. */
+async function evict(): Promise<void> {
+    const db = await openCache();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entries: CacheEntry[] = await requestToPromise(store.index('lastAccess').getAll());
+    const now = Date.now();
+
+    let count = entries.length;
+    let bytes = entries.reduce((n, e) => n + e.size, 0);
+    for (const entry of entries) {
+        const expired = entry.expiresAt < now;
+        if (!expired && count <= MAX_ENTRIES && bytes <= MAX_BYTES) continue;
+        store.delete(entry.key);
+        count--;
+        bytes -= entry.size;
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Returns the cached value for (fn, model, input) or runs `compute` and stores
+ * its result. `shouldCache` keeps fallbacks such as empty lists out of the cache.
+ */
+export async function cachedResponse<T>(
+    fn: string,
+    model: string,
+    input: unknown,
+    ttlMs: number,
+    compute: () => Promise<T>,
+    shouldCache: (value: T) => boolean = (value) => value !== null && value !== undefined
+): Promise<T> {
+    if (!isIndexedDBAvailable()) return compute();
+    const key = `${KEY_VERSION}|${fn}|${model}|${normalizeInput(input)}`;
+
+    try {
+        const hit = await readEntry(key);
+        if (hit) return hit.value as T;
+    } catch (e) {
+        console.warn("Response cache read failed:", e);
+    }
+
+    const value = await compute();
+    if (shouldCache(value)) {
+        const now = Date.now();
+        const size = key.length + JSON.stringify(value).length;
+        writeEntry({ key, fn, model, value, size, createdAt: now, expiresAt: now + ttlMs, lastAccess: now })
+            .catch(e => console.warn("Response cache write failed:", e));
+    }
+    return value;
+}
+
+export async function getResponseCacheStats(): Promise<{ entries: number; bytes: number }> {
+    if (!isIndexedDBAvailable()) return { entries: 0, bytes: 0 };
+    const db = await openCache();
+    const entries: CacheEntry[] = await requestToPromise(db.transaction(STORE).objectStore(STORE).getAll());
+    return { entries: entries.length, bytes: entries.reduce((n, e) => n + e.size, 0) };
+}
+
+export async function clearResponseCache(): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    const db = await openCache();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+}
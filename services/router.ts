@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * HASH ROUTER
+ * Every page in App.renderPage has a path, and the current route lives in
+ * location.hash (`#/chat/1712345678901`) so refreshes, bookmarks and shared links
+ * land on the same screen and the browser back button moves between pages.
+ * Hash routing needs no server rewrites, so static hosting keeps working.
+ * Query parameters (`#/translator?from=English&to=Urdu&text=...`) are merged into
+ * the route params.
+ */
+export type RouteParams = Record<string, string>;
+
+export interface Route {
+    page: string;
+    params: RouteParams;
+}
+
+/** `:name` is a path param; a trailing `?` makes it optional. */
+const ROUTES: { page: string; path: string }[] = [
+    { page: 'mainMenu', path: '/' },
+    { page: 'aiChat', path: '/chat/:conversationId?' },
+    { page: 'creative', path: '/creative' },
+    { page: 'storyReader', path: '/notebook/:view?' },
+    { page: 'translator', path: '/translator' },
+    { page: 'intelligenceHub', path: '/intelligence' },
+    { page: 'exam', path: '/exam/:reportId?' },
+    { page: 'examDashboard', path: '/results' },
+    { page: 'search', path: '/search' },
+    { page: 'aboutContact', path: '/about' },
+    { page: 'modelSettings', path: '/settings/models' },
+    { page: 'sikesProfile', path: '/sike' },
+    { page: 'adminPanel', path: '/admin' },
+    { page: 'userManagement', path: '/admin/users' }
+];
+
+export const HOME_ROUTE: Route = { page: 'mainMenu', params: {} };
+
+const segmentsOf = (path: string) => path.split('/').filter(Boolean);
+
+function matchPath(pattern: string, path: string): RouteParams | null {
+    const expected = segmentsOf(pattern);
+    const actual = segmentsOf(path);
+    if (actual.length > expected.length) return null;
+    const params: RouteParams = {};
+    for (let i = 0; i < expected.length; i++) {
+        const part = expected[i];
+        if (!part.startsWith(':')) {
+            if (actual[i] !== part) return null;
+            continue;
+        }
+        const optional = part.endsWith('?');
+        const name = part.slice(1, optional ? -1 : undefined);
+        if (actual[i] === undefined) {
+            if (!optional) return null;
+            continue;
+        }
+        try {
+            params[name] = decodeURIComponent(actual[i]);
+        } catch {
+            // A malformed escape such as `%E0` cannot name anything; treat the route as not matched
+            return null;
+        }
+    }
+    return params;
+}
+
+/** Unknown paths resolve to the main menu. */
+export function parseRoute(hash: string): Route {
+    const [path, query = ''] = hash.replace(/^#/, '').split('?');
+    for (const route of ROUTES) {
+        const params = matchPath(route.path, path || '/');
+        if (params) {
+            new URLSearchParams(query).forEach((value, key) => { params[key] = value; });
+            return { page: route.page, params };
+        }
+    }
+    return HOME_ROUTE;
+}
+
+/** Path params fill the pattern; anything left over goes into the query string. */
+export function routeHash(page: string, params: RouteParams = {}): string {
+    const route = ROUTES.find(r => r.page === page) || ROUTES[0];
+    const query = new URLSearchParams();
+    const used = new Set<string>();
+    const path = segmentsOf(route.path).map(part => {
+        if (!part.startsWith(':')) return part;
+        const name = part.slice(1).replace(/\?$/, '');
+        used.add(name);
+        return params[name] ? encodeURIComponent(params[name]) : '';
+    }).filter(Boolean).join('/');
+    Object.entries(params).forEach(([key, value]) => {
+        if (!used.has(key) && value) query.set(key, value);
+    });
+    const search = query.toString();
+    return `#/${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Pushes a history entry, or with `replace` swaps the current one (for in-page
+ * state such as the open conversation, so Back still leaves the page).
+ */
+export function navigate(page: string, params?: RouteParams, options: { replace?: boolean } = {}) {
+    const hash = routeHash(page, params);
+    if (hash === window.location.hash) return;
+    if (options.replace) {
+        window.history.replaceState(window.history.state, '', hash);
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+    } else {
+        window.location.hash = hash;
+    }
+}
+
+export function useRoute(): Route {
+    const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+    useEffect(() => {
+        const handleChange = () => setRoute(parseRoute(window.location.hash));
+        window.addEventListener('hashchange', handleChange);
+        return () => window.removeEventListener('hashchange', handleChange);
+    }, []);
+    return route;
+}
@@ -0,0 +1,160 @@
+import { Conversation, Message } from '../types';
+import { CHAT_THREADS, loadChatThread, loadConversations, loadSavedMessages } from './repository';
+import { parentIdOf } from './conversationTree';
+import { Route } from './router';
+
+/**
+ * LOCAL SEARCH INDEX
+ * Flattens every AIChat conversation (all branches), the Creative Studio and
+ * notebook chat threads and the saved messages into one list of entries with
+ * pre-lowercased text. Nothing leaves the device. A query matches an entry when
+ * every term appears in its text or title; hits carry a highlighted snippet and
+ * the route that opens the message (see useMessageFocus in components/Chat.tsx).
+ */
+export type SearchSource = 'chat' | 'creative' | 'notebook' | 'saved';
+
+export const SEARCH_SOURCES: SearchSource[] = ['chat', 'creative', 'notebook', 'saved'];
+
+export const SEARCH_SOURCE_LABELS: Record<SearchSource, string> = {
+    chat: 'AI Chat',
+    creative: 'Creative Studio',
+    notebook: 'Notebook Chat',
+    saved: 'Saved Messages'
+};
+
+export interface SearchEntry {
+    source: SearchSource;
+    messageId: string;
+    sender: Message['sender'];
+    /** Conversation title, or the page name for single-thread chats. */
+    title: string;
+    text: string;
+    normalized: string;
+    timestamp: number;
+    /** AIChat only: the persona the reply was generated with (for a prompt, that of its first reply). */
+    chatMode?: string;
+    /** Route that opens the message; null for a saved copy whose original is gone. */
+    target: Route | null;
+}
+
+export interface SearchFilters {
+    source?: SearchSource;
+    /** Oldest timestamp to include. */
+    since?: number;
+    chatMode?: string;
+}
+
+export interface SnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchHit {
+    entry: SearchEntry;
+    score: number;
+    snippet: SnippetPart[];
+}
+
+const SNIPPET_RADIUS = 70;
+const MAX_RESULTS = 100;
+
+const normalize = (text: string) => text.toLowerCase();
+
+/** Message ids are creation times; anything else falls back to the container's date. */
+const messageTime = (message: Message, fallback: number) => /^\d{12,}$/.test(message.id) ? Number(message.id) : fallback;
+
+const entry = (source: SearchSource, message: Message, title: string, timestamp: number, target: Route | null, chatMode?: string): SearchEntry => ({
+    source,
+    messageId: message.id,
+    sender: message.sender,
+    title,
+    text: message.text,
+    normalized: normalize(`${title}\n${message.text}`),
+    timestamp,
+    chatMode,
+    target
+});
+
+export function conversationEntries(conversations: Conversation[]): SearchEntry[] {
+    return conversations.flatMap(convo => {
+        const replyMode = new Map<string, string>();
+        convo.messages.forEach((m, i) => {
+            const parentId = parentIdOf(convo.messages, i);
+            if (m.chatMode && parentId && !replyMode.has(parentId)) replyMode.set(parentId, m.chatMode);
+        });
+        return convo.messages.filter(m => m.text.trim()).map(m => entry(
+            'chat', m, convo.title, messageTime(m, convo.lastUpdated),
+            { page: 'aiChat', params: { conversationId: convo.id, message: m.id } },
+            m.chatMode || replyMode.get(m.id)
+        ));
+    });
+}
+
+export function threadEntries(source: 'creative' | 'notebook', messages: Message[]): SearchEntry[] {
+    const target = (m: Message): Route => source === 'creative'
+        ? { page: 'creative', params: { message: m.id } }
+        : { page: 'storyReader', params: { view: 'chat', message: m.id } };
+    return messages.filter(m => m.text.trim()).map(m => entry(source, m, SEARCH_SOURCE_LABELS[source], messageTime(m, 0), target(m)));
+}
+
+/** Everything the signed-in user (or the guest profile) has stored. */
+export async function buildSearchIndex(email: string | null | undefined): Promise<SearchEntry[]> {
+    const [conversations, creative, notebook, saved] = await Promise.all([
+        loadConversations(email),
+        loadChatThread(email, CHAT_THREADS.creative),
+        loadChatThread(email, CHAT_THREADS.notebook),
+        loadSavedMessages(email)
+    ]);
+    const entries = [...conversationEntries(conversations), ...threadEntries('creative', creative), ...threadEntries('notebook', notebook)];
+    // A saved message keeps the id of the original, so it can jump back to it
+    const originals = new Map(entries.map(e => [e.messageId, e]));
+    const savedEntries = saved.filter(m => m.text.trim()).map(m => {
+        const original = originals.get(m.id);
+        return entry('saved', m, original?.title || SEARCH_SOURCE_LABELS.saved, messageTime(m, 0), original?.target || null, original?.chatMode);
+    });
+    return [...entries, ...savedEntries];
+}
+
+export function queryTerms(query: string): string[] {
+    return Array.from(new Set(normalize(query).split(/\s+/).filter(Boolean)));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** A window of `text` around the first match, split into plain and highlighted parts. */
+export function highlightSnippet(text: string, terms: string[], radius: number = SNIPPET_RADIUS): SnippetPart[] {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    if (terms.length === 0) return [{ text: flat.slice(0, radius * 2), match: false }];
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    const first = flat.search(pattern);
+    const start = first > radius ? first - radius : 0;
+    const end = Math.min(flat.length, Math.max(first, 0) + radius * 2);
+    const window = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+    // split() with a capture group puts the matches at the odd indexes
+    return window.split(pattern).filter(Boolean).map(part => ({ text: part, match: terms.includes(normalize(part)) }));
+}
+
+const countOf = (haystack: string, term: string) => haystack.split(term).length - 1;
+
+/**
+ * Entries containing every term, best first: more occurrences score higher, a
+ * term in the title adds a bonus, and newer messages win ties.
+ */
+export function searchEntries(entries: SearchEntry[], query: string, filters: SearchFilters = {}, limit: number = MAX_RESULTS): SearchHit[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+    const hits: SearchHit[] = [];
+    for (const e of entries) {
+        if (filters.source && e.source !== filters.source) continue;
+        if (filters.since && e.timestamp < filters.since) continue;
+        if (filters.chatMode && e.chatMode !== filters.chatMode) continue;
+        if (!terms.every(t => e.normalized.includes(t))) continue;
+        const title = normalize(e.title);
+        const score = terms.reduce((sum, t) => sum + Math.min(countOf(e.normalized, t), 5) + (title.includes(t) ? 2 : 0), 0);
+        hits.push({ entry: e, score, snippet: [] });
+    }
+    return hits
+        .sort((a, b) => b.score - a.score || b.entry.timestamp - a.entry.timestamp)
+        .slice(0, limit)
+        .map(hit => ({ ...hit, snippet: highlightSnippet(hit.entry.text, terms) }));
+}
@@ -0,0 +1,17 @@
+import { SubscriptionTier } from '../types';
+import { AuthSession, postWithSession, saveSession } from './authService';
+
+/**
+ * SUBSCRIPTION CODES CLIENT
+ * Calls api/codes.ts. Codes are verified and marked as used on the server; a
+ * successful redemption returns a new session that carries the extended tier.
+ */
+const CODES_URL = process.env.CODES_URL || '/api/codes';
+
+export async function redeemCode(code: string): Promise<AuthSession> {
+    return saveSession(await postWithSession<AuthSession>(CODES_URL, { action: 'redeem', code: code.trim() }));
+}
+
+export async function mintCodes(tier: Exclude<SubscriptionTier, 'free'>, days: number, count: number): Promise<string[]> {
+    return (await postWithSession<{ codes: string[] }>(CODES_URL, { action: 'mint', tier, days, count })).codes;
+}
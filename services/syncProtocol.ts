@@ -0,0 +1,50 @@
+/**
+ * SYNC PROTOCOL
+ * Shared by the browser (services/syncService.ts) and the sync route (api/sync.ts).
+ * Every synced item is a record addressed by collection + key and stamped with a
+ * last-writer-wins clock: the wall-clock time of the edit, with the device id as
+ * the tie-breaker. Deletions are tombstones (`deleted: true`, no data) so they
+ * propagate like any other edit. The server numbers accepted records with a
+ * per-user revision; clients pull everything after the last revision they saw.
+ */
+export const SYNC_COLLECTIONS = ['conversations', 'vaultFiles', 'vaultBoard', 'examHistory', 'settings'] as const;
+export type SyncCollection = typeof SYNC_COLLECTIONS[number];
+
+export interface SyncClock {
+    updatedAt: number;
+    deviceId: string;
+}
+
+export interface SyncChange extends SyncClock {
+    collection: SyncCollection;
+    key: string;
+    deleted?: boolean;
+    data?: any;
+}
+
+/** A change as held by the server, numbered in acceptance order. */
+export interface SyncRecord extends SyncChange {
+    revision: number;
+}
+
+export interface SyncRequest {
+    /** Highest revision the client has already applied; 0 for a first sync. */
+    since: number;
+    changes: SyncChange[];
+}
+
+export interface SyncResponse {
+    /** Revision to send as `since` next time. */
+    revision: number;
+    /** Records accepted after `since`, including the ones just pushed. */
+    changes: SyncRecord[];
+    /** Pushed changes that lost to a newer copy on the server; that copy is in `changes`. */
+    rejected: { collection: SyncCollection; key: string }[];
+}
+
+export const recordId = (collection: SyncCollection, key: string) => `${collection}/${key}`;
+
+/** True when `a` was written after `b`. Equal times are settled by device id so every replica agrees. */
+export function isNewerClock(a: SyncClock, b: SyncClock): boolean {
+    return a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.deviceId > b.deviceId;
+}
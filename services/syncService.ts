@@ -0,0 +1,266 @@
+import { Conversation, UserProfile, VaultFile } from '../types';
+import { MODEL_ROUTING_KEY, PERSONAS_KEY, SIKE_USERS_KEY, SYNC_DEVICE_KEY, SYNC_SETTINGS_KEY, SYNC_STATE_PREFIX } from '../utils/appUtils';
+import { deleteConversation, deleteExamReport, ExamReportRecord, loadAllExamReports, loadConversations, loadVault, ownerKey, putExamReport, saveConversation, saveVault } from './repository';
+import { DEFAULT_MODEL_ROUTING, saveModelRouting } from './modelRouting';
+import { saveCustomPersonas } from './personas';
+import { authHeaders } from './authService';
+import { isNewerClock, recordId, SyncChange, SyncClock, SyncCollection, SyncRecord, SyncRequest, SyncResponse } from './syncProtocol';
+
+/**
+ * CROSS-DEVICE SYNC
+ * Pushes local edits to the sync route (api/sync.ts) and applies newer edits
+ * from other devices, per record, last writer wins. Changes are found by
+ * comparing each record's hash with the one recorded at the previous sync, so
+ * the repository's write paths stay untouched. Per-user sync state (cursor and
+ * per-record clocks) lives in localStorage next to the device id.
+ */
+const SYNC_URL = process.env.SYNC_URL || '/api/sync';
+const SYNC_BATCH_LIMIT = 100;
+const SYNC_BATCH_BYTES = 3 * 1024 * 1024;
+export const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+interface LocalRecord {
+    collection: SyncCollection;
+    key: string;
+    data: any;
+    /** Edit time carried by the record itself, preferred over the detection time. */
+    editedAt?: number;
+}
+
+interface SyncState {
+    cursor: number;
+    lastSyncedAt?: number;
+    records: Record<string, SyncClock & { hash: string; deleted?: boolean }>;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    conflicts: number;
+}
+
+/** FNV-1a over the record JSON; only used to notice that a record changed. */
+function hashRecord(data: any): string {
+    const text = JSON.stringify(data);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+function getDeviceId(): string {
+    let id = localStorage.getItem(SYNC_DEVICE_KEY);
+    if (!id) {
+        id = typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        localStorage.setItem(SYNC_DEVICE_KEY, id);
+    }
+    return id;
+}
+
+function loadState(email: string): SyncState {
+    try {
+        return { cursor: 0, records: {}, ...JSON.parse(localStorage.getItem(SYNC_STATE_PREFIX + ownerKey(email)) || '{}') };
+    } catch (e) {
+        return { cursor: 0, records: {} };
+    }
+}
+
+function saveState(email: string, state: SyncState) {
+    localStorage.setItem(SYNC_STATE_PREFIX + ownerKey(email), JSON.stringify(state));
+}
+
+export function isSyncEnabled(): boolean {
+    try {
+        return JSON.parse(localStorage.getItem(SYNC_SETTINGS_KEY) || '{}').enabled === true;
+    } catch (e) {
+        return false;
+    }
+}
+
+export function setSyncEnabled(enabled: boolean) {
+    localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify({ enabled }));
+}
+
+export function getLastSyncedAt(email: string): number | null {
+    return loadState(email).lastSyncedAt || null;
+}
+
+// --- LOCAL COLLECTIONS ---
+
+function readUsers(): UserProfile[] {
+    return JSON.parse(localStorage.getItem(SIKE_USERS_KEY) || '[]');
+}
+
+async function collectLocalRecords(email: string): Promise<LocalRecord[]> {
+    const [conversations, vault, allExams] = await Promise.all([loadConversations(email), loadVault(email), loadAllExamReports()]);
+    // Reports belong to the account signed in when they were saved. Older reports carry no owner;
+    // those this account already synced stay in, so they are not pushed as deletions.
+    const synced = loadState(email).records;
+    const exams = allExams.filter(r => {
+        if (r.owner) return r.owner === ownerKey(email);
+        const previous = synced[recordId('examHistory', r.id)];
+        return !!previous && !previous.deleted;
+    });
+    const records: LocalRecord[] = [
+        ...conversations.map(c => ({ collection: 'conversations' as const, key: c.id, data: c, editedAt: Math.max(c.lastUpdated, c.organizedAt || 0) })),
+        ...vault.files.map(f => ({ collection: 'vaultFiles' as const, key: f.id, data: f })),
+        ...exams.map(r => ({ collection: 'examHistory' as const, key: r.id, data: r, editedAt: r.savedAt }))
+    ];
+    if (vault.tasks.length || vault.messages.length) {
+        records.push({ collection: 'vaultBoard', key: 'board', data: { tasks: vault.tasks, messages: vault.messages } });
+    }
+
+    // Settings are only synced once set here, so a fresh device cannot overwrite them with defaults
+    const notes = readUsers().find(u => u.email === email)?.notes;
+    if (notes) records.push({ collection: 'settings', key: 'notes', data: notes });
+    const routing = localStorage.getItem(MODEL_ROUTING_KEY);
+    if (routing) records.push({ collection: 'settings', key: 'modelRouting', data: JSON.parse(routing) });
+    const personas = localStorage.getItem(PERSONAS_KEY);
+    if (personas) records.push({ collection: 'settings', key: 'personas', data: JSON.parse(personas) });
+    return records;
+}
+
+async function applyVault(email: string, changes: SyncRecord[]) {
+    const vault = await loadVault(email);
+    const files = new Map(vault.files.map(f => [f.id, f]));
+    changes.forEach(change => {
+        if (change.collection === 'vaultFiles') {
+            if (change.deleted) files.delete(change.key); else files.set(change.key, change.data as VaultFile);
+        } else {
+            vault.tasks = change.deleted ? [] : change.data.tasks || [];
+            vault.messages = change.deleted ? [] : change.data.messages || [];
+        }
+    });
+    saveVault(email, { ...vault, files: Array.from(files.values()) });
+}
+
+function applySetting(email: string, change: SyncRecord) {
+    if (change.key === 'modelRouting') {
+        saveModelRouting(change.deleted ? DEFAULT_MODEL_ROUTING : change.data);
+    } else if (change.key === 'personas') {
+        saveCustomPersonas(change.deleted ? [] : change.data);
+    } else if (change.key === 'notes') {
+        const users = readUsers();
+        const user = users.find(u => u.email === email);
+        if (!user) return;
+        user.notes = change.deleted ? '' : change.data;
+        localStorage.setItem(SIKE_USERS_KEY, JSON.stringify(users));
+    }
+}
+
+async function applyRemoteChanges(email: string, changes: SyncRecord[]) {
+    const vaultChanges: SyncRecord[] = [];
+    changes.forEach(change => {
+        switch (change.collection) {
+            case 'conversations':
+                if (change.deleted) deleteConversation(email, change.key); else saveConversation(email, change.data as Conversation);
+                break;
+            case 'examHistory':
+                if (change.deleted) deleteExamReport(change.key); else putExamReport({ ...change.data as ExamReportRecord, owner: ownerKey(email) });
+                break;
+            case 'settings':
+                applySetting(email, change);
+                break;
+            default:
+                vaultChanges.push(change);
+        }
+    });
+    if (vaultChanges.length) await applyVault(email, vaultChanges);
+}
+
+// --- PROTOCOL ---
+
+async function postSync(request: SyncRequest): Promise<SyncResponse> {
+    const res = await fetch(SYNC_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+        body: JSON.stringify(request)
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(`Sync ${res.status}: ${data.error || res.statusText}`);
+    return data;
+}
+
+/** Splits pending changes so each request stays under the route's count and body limits. */
+function toBatches(changes: SyncChange[]): SyncChange[][] {
+    const batches: SyncChange[][] = [[]];
+    let bytes = 0;
+    changes.forEach(change => {
+        const size = JSON.stringify(change).length;
+        const current = batches[batches.length - 1];
+        if (current.length && (current.length >= SYNC_BATCH_LIMIT || bytes + size > SYNC_BATCH_BYTES)) {
+            batches.push([]);
+            bytes = 0;
+        }
+        batches[batches.length - 1].push(change);
+        bytes += size;
+    });
+    return batches;
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/** One full push/pull cycle for the signed-in user; a call made mid-sync joins the running one. */
+export function syncNow(email: string | null | undefined): Promise<SyncResult> {
+    if (!email) return Promise.reject(new Error("Sign in to sync across devices."));
+    if (!inFlight) inFlight = runSync(email).finally(() => { inFlight = null; });
+    return inFlight;
+}
+
+async function runSync(email: string): Promise<SyncResult> {
+    const deviceId = getDeviceId();
+    const state = loadState(email);
+    const now = Date.now();
+
+    const local = await collectLocalRecords(email);
+    const localIds = new Set(local.map(r => recordId(r.collection, r.key)));
+    const pending: SyncChange[] = [];
+    local.forEach(record => {
+        const previous = state.records[recordId(record.collection, record.key)];
+        if (previous && !previous.deleted && previous.hash === hashRecord(record.data)) return;
+        const updatedAt = Math.max(record.editedAt || now, (previous?.updatedAt || 0) + 1);
+        pending.push({ collection: record.collection, key: record.key, data: record.data, updatedAt, deviceId });
+    });
+    Object.entries(state.records).forEach(([id, previous]) => {
+        if (previous.deleted || localIds.has(id)) return;
+        const [collection, ...key] = id.split('/');
+        pending.push({ collection: collection as SyncCollection, key: key.join('/'), deleted: true, updatedAt: Math.max(now, previous.updatedAt + 1), deviceId });
+    });
+    const pendingById = new Map(pending.map(c => [recordId(c.collection, c.key), c]));
+
+    const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0 };
+    for (const batch of toBatches(pending)) {
+        const response = await postSync({ since: state.cursor, changes: batch });
+        const rejected = new Set(response.rejected.map(r => recordId(r.collection, r.key)));
+
+        batch.forEach(change => {
+            const id = recordId(change.collection, change.key);
+            if (rejected.has(id)) return;
+            state.records[id] = { updatedAt: change.updatedAt, deviceId: change.deviceId, hash: change.deleted ? '' : hashRecord(change.data), ...(change.deleted && { deleted: true }) };
+            result.pushed++;
+        });
+        result.conflicts += rejected.size;
+
+        // Skip remote copies older than what this device holds or is still about to push
+        const incoming = response.changes.filter(change => {
+            const id = recordId(change.collection, change.key);
+            const known = state.records[id];
+            const unsent = pendingById.get(id);
+            if (known && !isNewerClock(change, known)) return false;
+            if (unsent && !rejected.has(id) && !isNewerClock(change, unsent)) return false;
+            state.records[id] = { updatedAt: change.updatedAt, deviceId: change.deviceId, hash: change.deleted ? '' : hashRecord(change.data), ...(change.deleted && { deleted: true }) };
+            return true;
+        });
+        await applyRemoteChanges(email, incoming);
+        result.pulled += incoming.length;
+
+        state.cursor = response.revision;
+        saveState(email, state);
+    }
+
+    state.lastSyncedAt = Date.now();
+    saveState(email, state);
+    return result;
+}
@@ -0,0 +1,34 @@
+import { SubscriptionTier, UserRole } from '../types';
+import { postWithSession } from './authService';
+
+/**
+ * USER MANAGEMENT CLIENT
+ * Calls api/users.ts. The route re-checks every permission, so these helpers
+ * only mirror what the signed-in role is allowed to do.
+ */
+const USERS_URL = process.env.USERS_URL || '/api/users';
+
+export interface ManagedUser {
+    name: string;
+    email: string;
+    role: UserRole;
+    createdAt: number;
+    subscription?: { tier: SubscriptionTier; expiry: number };
+}
+
+export async function listUsers(): Promise<ManagedUser[]> {
+    return (await postWithSession<{ users: ManagedUser[] }>(USERS_URL, { action: 'list' })).users;
+}
+
+export async function deleteUser(email: string): Promise<void> {
+    await postWithSession(USERS_URL, { action: 'delete', email });
+}
+
+export async function setUserRole(email: string, role: UserRole): Promise<ManagedUser> {
+    return (await postWithSession<{ user: ManagedUser }>(USERS_URL, { action: 'setRole', email, role })).user;
+}
+
+/** `free` removes the grant; paid tiers extend any active grant by `days`. */
+export async function grantTier(email: string, tier: SubscriptionTier, days: number): Promise<ManagedUser> {
+    return (await postWithSession<{ user: ManagedUser }>(USERS_URL, { action: 'grantTier', email, tier, days })).user;
+}
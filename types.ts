@@ -6,6 +6,37 @@ export interface Message {
   sources?: Source[];
   imageUrls?: string[];
   imageIsLoading?: boolean;
+  /** Set when the user stopped generation; `text` holds the partial reply. */
+  interrupted?: boolean;
+  usage?: TokenUsage;
+  /** Model that produced a bot reply, after routing and any fallback. */
+  model?: string;
+  /** Name of the AIChat persona a bot reply was generated with; used by the search filters. */
+  chatMode?: string;
+  /**
+   * Previous message on this branch (null for the first message). Edits and
+   * regenerations add siblings under the same parent; see services/conversationTree.ts.
+   * Messages saved before branching have no parentId and follow array order.
+   */
+  parentId?: string | null;
+}
+
+/** Client-side estimate for one exchange; see services/contextBuilder.ts. */
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** History turns left out of the request to stay within budget. */
+  droppedTurns: number;
+}
+
+/** Rolling summary of the oldest `coveredMessages` turns of a conversation. */
+export interface ContextSummary {
+  text: string;
+  coveredMessages: number;
+  /** Last message the summary covers, so a different branch does not reuse it. */
+  lastMessageId?: string;
 }
 
 export interface NotebookSource {
@@ -29,18 +60,64 @@ export interface VaultTask {
     priority: 'low' | 'medium' | 'high';
 }
 
+export interface LinguisticRule {
+    id: string;
+    trigger: string;
+    response: string;
+}
+
 export interface Conversation {
   id: string;
   title: string;
+  /** Every message of every branch, oldest first. */
   messages: Message[];
   lastUpdated: number;
+  contextSummary?: ContextSummary;
+  /** Last message of the branch on screen; defaults to the newest message. */
+  activeLeafId?: string;
+  /** Folder name; unset means unfiled. See services/conversationOrganizer.ts. */
+  folder?: string;
+  pinned?: boolean;
+  /** Lowercase, without duplicates. */
+  tags?: string[];
+  /** Hidden from the default list but kept, searchable and synced. */
+  archived?: boolean;
+  /** Last folder, pin, tag, archive or persona change. Kept apart from lastUpdated so filing a chat does not reorder it. */
+  organizedAt?: number;
+  /** Copy of the persona the chat uses, so it survives the persona being deleted or edited on another device. */
+  persona?: Persona;
+}
+
+export type PersonaAttachment = 'upload' | 'camera';
+
+/** An AIChat persona; built-ins come from the chat modes, the rest are user-made. See services/personas.ts. */
+export interface Persona {
+  id: string;
+  name: string;
+  /** Added to the system prompt; empty keeps the stock SigNify persona. */
+  instructions: string;
+  /** Language the replies are written in. */
+  language: string;
+  /** 0-2; unset uses the model's default. */
+  temperature?: number;
+  /** Attachment buttons shown in the composer. */
+  attachments: PersonaAttachment[];
+  /** Suggestions shown in an empty chat. */
+  starterPrompts: string[];
+  /** Chat mode whose model routing (Model Settings) the persona uses. */
+  baseMode: string;
+  builtIn?: boolean;
 }
 
 export type SubscriptionTier = 'free' | 'study' | 'pro';
 
+/** Assigned by the auth server (api/auth.ts); what each role may do is in services/permissions.ts. */
+export type UserRole = 'student' | 'teacher' | 'admin' | 'owner';
+
 export interface UserProfile {
   name: string;
   email: string;
+  role?: UserRole;
   picture?: string;
   notes?: string;
   lastActive?: number;
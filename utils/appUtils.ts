@@ -1,40 +1,27 @@
 
-import { Message, UserProfile, SubscriptionTier } from '../types';
+import { Message, UserProfile } from '../types';
 
-// --- Dynamic Storage Keys ---
-export const getConversationsKey = (email: string | null) => `sikeAiAssistant_conversations_${(email || 'global').replace(/[@.]/g, '_')}`;
-export const getSavedMessagesKey = (email: string | null) => `sikeAiAssistant_savedMessages_${(email || 'global').replace(/[@.]/g, '_')}`;
+// --- Storage Keys ---
 export const GLOBAL_NOTES_KEY = 'sikeAiAssistant_globalNotes';
 export const SIKE_USERS_KEY = 'sikeAiAssistant_users';
-export const CURRENT_USER_EMAIL_KEY = 'sikeAiAssistant_currentUserEmail';
+export const AUTH_SESSION_KEY = 'sikeAiAssistant_session';
+export const MODEL_ROUTING_KEY = 'sikeAiAssistant_modelRouting';
+export const PERSONAS_KEY = 'sikeAiAssistant_personas';
+export const SCHEMA_REPORT_KEY = 'sikeAiAssistant_schemaReport';
+export const SYNC_SETTINGS_KEY = 'sikeAiAssistant_sync';
+export const SYNC_DEVICE_KEY = 'sikeAiAssistant_syncDevice';
+export const SYNC_STATE_PREFIX = 'sikeAiAssistant_syncState_';
+export const USAGE_PREFIX = 'sikeAiAssistant_usage_';
 
-// Added missing exam storage keys
-export const getInProgressExamKey = (rollNo: string) => `sikeAiAssistant_examInProgress_${rollNo}`;
-export const getExamHistoryKey = (rollNo: string) => `sikeAiAssistant_examHistory_${rollNo}`;
-
-// --- Subscription System ---
-const VALID_CODES = {
-    study: [
-        'STUDY560001', 'STUDY560011', 'STUDY560021', 'STUDY560031', 'STUDY560041',
-        'STUDY560051', 'STUDY560061', 'STUDY560071', 'STUDY560081', 'STUDY560091'
-    ],
-    pro: [
-        'PRO100001', 'PRO100011', 'PRO100021', 'PRO100031', 'PRO100041',
-        'PRO100051', 'PRO100061', 'PRO100071', 'PRO100081', 'PRO100091'
-    ]
-};
-
-export const validateSubscriptionCode = (code: string): SubscriptionTier | null => {
-    const normalizedCode = code.trim().toUpperCase();
-    if (VALID_CODES.study.includes(normalizedCode)) return 'study';
-    if (VALID_CODES.pro.includes(normalizedCode)) return 'pro';
-    return null;
-};
-
-export const checkFeatureAccess = (pageId: string, currentTier: SubscriptionTier): boolean => {
-    // Standardized feature access check
-    return true;
-};
+// --- Legacy Storage Prefixes ---
+// User data now lives in IndexedDB (services/repository.ts); these keys are only read to migrate them.
+export const LEGACY_CONVERSATIONS_PREFIX = 'sikeAiAssistant_conversations_';
+export const LEGACY_SAVED_MESSAGES_PREFIX = 'sikeAiAssistant_savedMessages_';
+export const LEGACY_VAULT_PREFIX = 'signify_vault_';
+export const LEGACY_EXAM_HISTORY_PREFIX = 'sikeAiAssistant_examHistory_';
+export const LEGACY_EXAM_SESSION_PREFIX = 'sikeAiAssistant_examInProgress_';
+export const LEGACY_LINGUISTIC_RULES_KEY = 'sike_explicit_linguistic_rules';
+export const LEGACY_LINGUISTIC_TRAINING_KEY = 'sike_linguistic_training_sindhi';
 
 // Helper to chunk text for TTS
 export const chunkText = (text: string, maxLength = 160): string[] => {
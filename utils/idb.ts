@@ -0,0 +1,49 @@
+/**
+ * INDEXEDDB HELPERS
+ * Thin promise wrappers over the raw IndexedDB API; no third-party wrapper is bundled.
+ */
+export function isIndexedDBAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+const openConnections = new Map<string, Promise<IDBDatabase>>();
+
+/** Opens (and caches) a connection; `upgrade` runs for every version bump with the old version. */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void): Promise<IDBDatabase> {
+    const cached = openConnections.get(name);
+    if (cached) return cached;
+
+    const pending = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+        request.onsuccess = () => {
+            const db = request.result;
+            db.onversionchange = () => {
+                db.close();
+                openConnections.delete(name);
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            openConnections.delete(name);
+            reject(request.error);
+        };
+    });
+    openConnections.set(name, pending);
+    return pending;
+}
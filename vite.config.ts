@@ -1,10 +1,20 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// In proxy mode the key stays on the server (api/proxy.ts) and is never inlined.
+const transport = process.env.AI_TRANSPORT === 'proxy' ? 'proxy' : 'direct';
+
 export default defineConfig({
   plugins: [react()],
   define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    'process.env.API_KEY': JSON.stringify(transport === 'proxy' ? '' : process.env.API_KEY),
+    'process.env.AI_PROVIDER': JSON.stringify(process.env.AI_PROVIDER || 'gemini'),
+    'process.env.AI_TRANSPORT': JSON.stringify(transport),
+    'process.env.AI_PROXY_URL': JSON.stringify(process.env.AI_PROXY_URL || '/api/proxy'),
+    'process.env.SYNC_URL': JSON.stringify(process.env.SYNC_URL || '/api/sync'),
+    'process.env.AUTH_URL': JSON.stringify(process.env.AUTH_URL || '/api/auth'),
+    'process.env.USERS_URL': JSON.stringify(process.env.USERS_URL || '/api/users'),
+    'process.env.CODES_URL': JSON.stringify(process.env.CODES_URL || '/api/codes')
   },
   server: {
     port: 3000,